@@ -0,0 +1,200 @@
+import type { ConcurrencyPolicy, ExecutionConfig, Logger } from '../types/index.js';
+
+const DEFAULT_POLICY: ConcurrencyPolicy = 'queue';
+const DEFAULT_DRAIN_TIMEOUT = 5000;
+
+// Time cancelled actions get to wind down once the drain timeout is over
+const CANCEL_GRACE_MS = 3000;
+
+export type ActionJob = (signal: AbortSignal) => Promise<unknown>;
+
+/**
+ * The signal a run is cancelled with, e.g. on a restart. Jobs pass it to
+ * runners as `signal` in the action context.
+ */
+export function contextSignal(context: Record<string, unknown> | undefined): AbortSignal | undefined {
+  return context?.signal instanceof AbortSignal ? context.signal : undefined;
+}
+
+/**
+ * Sleep, ending early when the signal aborts
+ */
+export function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done(): void {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+interface Run {
+  key: string;
+  job: ActionJob;
+  controller: AbortController;
+  // queued: behind an earlier run of its key; waiting: for a free slot
+  state: 'queued' | 'waiting' | 'running';
+  done: Promise<void>;
+  resolve: () => void;
+}
+
+/**
+ * Runs actions off the input path, so a slow command never holds up later
+ * presses. Each key (a binding) has a policy for a new run while an earlier
+ * one is still busy:
+ * - `parallel`: run alongside it
+ * - `queue`: run after it
+ * - `drop`: ignore the new run
+ * - `restart`: cancel it and run the new one
+ *
+ * At most `maxConcurrent` actions run at once; the rest wait for a slot in
+ * order. Cancellation goes through the AbortSignal handed to each job.
+ */
+export class ActionExecutor {
+  private runs = new Map<string, Run[]>(); // per key, in submission order
+  private waiting: Run[] = [];
+  private active = 0;
+  private defaultPolicy: ConcurrencyPolicy;
+  private maxConcurrent: number;
+  private drainTimeout: number;
+
+  constructor(
+    private logger: Logger,
+    config: ExecutionConfig = {}
+  ) {
+    this.defaultPolicy = config.defaultPolicy ?? DEFAULT_POLICY;
+    this.maxConcurrent = config.maxConcurrent ?? Infinity;
+    this.drainTimeout = config.drainTimeout ?? DEFAULT_DRAIN_TIMEOUT;
+  }
+
+  /**
+   * Run a job for a key according to the policy. Returns at once; failures
+   * are logged.
+   */
+  submit(key: string, job: ActionJob, policy: ConcurrencyPolicy = this.defaultPolicy): void {
+    const runs = this.runs.get(key) ?? [];
+
+    if (runs.length > 0 && policy === 'drop') {
+      this.logger.debug(`Dropping ${key}: still running`);
+      return;
+    }
+
+    if (runs.length > 0 && policy === 'restart') {
+      this.logger.debug(`Restarting ${key}`);
+      [...runs].forEach(run => this.cancel(run));
+    }
+
+    const busy = (this.runs.get(key) ?? []).length > 0;
+    const run = this.createRun(key, job);
+    this.runs.set(key, [...(this.runs.get(key) ?? []), run]);
+
+    if (busy && policy === 'queue') {
+      run.state = 'queued';
+    } else {
+      this.schedule(run);
+    }
+  }
+
+  /**
+   * Wait for running and queued actions, cancelling whatever is left after
+   * the drain timeout
+   */
+  async drain(timeout: number = this.drainTimeout): Promise<void> {
+    const pending = (): Run[] => [...this.runs.values()].flat();
+    const settled = (): Promise<void> => Promise.all(pending().map(run => run.done)).then(() => undefined);
+
+    if (pending().length === 0) return;
+    this.logger.info(`Waiting for ${pending().length} action(s) to finish...`);
+
+    if (await this.within(settled(), timeout)) return;
+
+    this.logger.warn(`Cancelling ${pending().length} action(s) still running after ${timeout} ms`);
+    pending().forEach(run => this.cancel(run));
+
+    if (!(await this.within(settled(), CANCEL_GRACE_MS))) {
+      this.logger.warn('Some actions did not stop after being cancelled');
+    }
+  }
+
+  /**
+   * Actions running now, and waiting for their turn or a slot
+   */
+  getCounts(): { running: number; pending: number } {
+    const total = [...this.runs.values()].reduce((sum, runs) => sum + runs.length, 0);
+    return { running: this.active, pending: total - this.active };
+  }
+
+  private createRun(key: string, job: ActionJob): Run {
+    let resolve: () => void = () => undefined;
+    const done = new Promise<void>(settle => (resolve = settle));
+    return { key, job, controller: new AbortController(), state: 'waiting', done, resolve };
+  }
+
+  private schedule(run: Run): void {
+    if (this.active < this.maxConcurrent) {
+      void this.start(run);
+    } else {
+      run.state = 'waiting';
+      this.waiting.push(run);
+    }
+  }
+
+  private async start(run: Run): Promise<void> {
+    run.state = 'running';
+    this.active++;
+
+    try {
+      await run.job(run.controller.signal);
+    } catch (error) {
+      this.logger.error(`Action for ${run.key} failed:`, error);
+    } finally {
+      this.active--;
+      this.finish(run);
+    }
+  }
+
+  /**
+   * Cancel a run: abort it if it is running, forget it if not
+   */
+  private cancel(run: Run): void {
+    run.controller.abort();
+
+    if (run.state !== 'running') {
+      this.waiting = this.waiting.filter(other => other !== run);
+      this.finish(run);
+    }
+  }
+
+  private finish(run: Run): void {
+    const runs = (this.runs.get(run.key) ?? []).filter(other => other !== run);
+    if (runs.length > 0) {
+      this.runs.set(run.key, runs);
+    } else {
+      this.runs.delete(run.key);
+    }
+    run.resolve();
+
+    // The next queued run of the key goes once nothing ahead of it is left
+    if (runs[0]?.state === 'queued') {
+      this.schedule(runs[0]);
+    }
+
+    while (this.active < this.maxConcurrent && this.waiting.length > 0) {
+      void this.start(this.waiting.shift() as Run);
+    }
+  }
+
+  private async within(promise: Promise<void>, ms: number): Promise<boolean> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<boolean>(resolve => (timer = setTimeout(() => resolve(false), ms)));
+
+    try {
+      return await Promise.race([promise.then(() => true), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
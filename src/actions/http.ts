@@ -0,0 +1,172 @@
+import type { ActionRunner, HttpAction, Logger } from '../types/index.js';
+import { contextSignal, wait } from './executor.js';
+import { fillTemplate, fillTemplateValue } from './template.js';
+import { expectNumber, expectString, expectStringRecord } from './validation.js';
+
+const DEFAULT_RETRY_DELAY = 500;
+const MAX_RETRY_DELAY = 30000;
+
+// Response bodies kept for the result and the debug log
+const MAX_RESPONSE_BODY = 64 * 1024;
+
+// Statuses worth another attempt; other failures won't change on a retry
+const RETRY_STATUSES = [408, 429];
+
+/**
+ * How a request ended. `attempts` counts the retries too.
+ */
+export interface HttpResult {
+  status: number;
+  statusText: string;
+  body: string;
+  attempts: number;
+}
+
+/**
+ * A request that failed on every attempt: the network, a timeout or an
+ * unexpected status. `status` is null when no response came back.
+ */
+export class HttpRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null,
+    readonly attempts: number
+  ) {
+    super(message);
+    this.name = 'HttpRequestError';
+  }
+}
+
+/**
+ * HTTP request action runner, e.g. for webhooks.
+ *
+ * The url, header values and body are templates filled from the press
+ * context. Network errors, timeouts and 408, 429 or 5xx responses are
+ * retried up to `retries` times with a doubling delay; a request that still
+ * fails rejects, so a macro's failure handling sees it.
+ */
+export class HttpActionRunner implements ActionRunner<HttpAction> {
+  name = 'HttpActionRunner';
+  type = 'http';
+
+  constructor(private logger: Logger) {}
+
+  validate(action: HttpAction): void {
+    expectString(action, 'url');
+    // Placeholders may fill any part, so only a fixed url is checked
+    if (!action.url.includes('{{')) {
+      try {
+        new URL(action.url);
+      } catch {
+        throw new Error(`"url" is not a valid URL: ${action.url}`);
+      }
+    }
+    if (action.method !== undefined) expectString(action, 'method');
+    if (action.headers !== undefined) expectStringRecord(action, 'headers');
+    if (action.timeout !== undefined) expectNumber(action, 'timeout');
+    if (action.retries !== undefined) expectNumber(action, 'retries');
+    if (action.retryDelay !== undefined) expectNumber(action, 'retryDelay');
+    if (action.expectStatus !== undefined &&
+        (!Array.isArray(action.expectStatus) || action.expectStatus.some(status => !Number.isInteger(status)))) {
+      throw new Error('"expectStatus" must be a list of status codes');
+    }
+  }
+
+  async execute(action: HttpAction, context: Record<string, unknown> = {}): Promise<HttpResult | void> {
+    const method = (action.method ?? (action.body === undefined ? 'GET' : 'POST')).toUpperCase();
+    const url = fillTemplate(action.url, context, encodeURIComponent);
+    const headers: Record<string, string> = {};
+    let body: string | undefined;
+
+    for (const [name, value] of Object.entries(action.headers ?? {})) {
+      headers[name.toLowerCase()] = fillTemplate(value, context);
+    }
+
+    if (typeof action.body === 'string') {
+      body = fillTemplate(action.body, context);
+    } else if (action.body !== undefined) {
+      body = JSON.stringify(fillTemplateValue(action.body, context));
+      headers['content-type'] ??= 'application/json';
+    }
+
+    const abortSignal = contextSignal(context);
+    const attempts = (action.retries ?? 0) + 1;
+    let retryDelay = action.retryDelay ?? DEFAULT_RETRY_DELAY;
+
+    for (let attempt = 1; ; attempt++) {
+      const outcome = await this.attempt(method, url, headers, body, action.timeout, abortSignal);
+
+      if (abortSignal?.aborted) {
+        this.logger.info(`HTTP ${method} ${url} cancelled`);
+        return;
+      }
+
+      if (outcome.response) {
+        const { status, statusText } = outcome.response;
+        const result: HttpResult = { status, statusText, body: outcome.body, attempts: attempt };
+        const ok = action.expectStatus ? action.expectStatus.includes(status) : status >= 200 && status < 300;
+
+        if (ok) {
+          this.logger.info(`HTTP ${method} ${url}: ${status}`);
+          if (result.body) this.logger.debug('Response body:', result.body);
+          return result;
+        }
+
+        const message = `HTTP ${method} ${url}: ${status} ${statusText}`;
+        if (attempt >= attempts || !(status >= 500 || RETRY_STATUSES.includes(status))) {
+          if (result.body) this.logger.debug('Response body:', result.body);
+          throw new HttpRequestError(message, status, attempt);
+        }
+        this.logger.warn(`${message}, retrying in ${retryDelay} ms (${attempt}/${attempts - 1})`);
+      } else {
+        const message = `HTTP ${method} ${url} failed: ${outcome.error}`;
+        if (attempt >= attempts) {
+          throw new HttpRequestError(message, null, attempt);
+        }
+        this.logger.warn(`${message}, retrying in ${retryDelay} ms (${attempt}/${attempts - 1})`);
+      }
+
+      await wait(retryDelay, abortSignal);
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY);
+    }
+  }
+
+  /**
+   * One request, with its own timeout. Resolves with the response or the
+   * reason there was none.
+   */
+  private async attempt(
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    body: string | undefined,
+    timeout: number | undefined,
+    abortSignal: AbortSignal | undefined
+  ): Promise<{ response: Response; body: string } | { response?: undefined; error: string }> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = timeout ? setTimeout(() => { timedOut = true; controller.abort(); }, timeout) : null;
+
+    const onAbort = (): void => controller.abort();
+    if (abortSignal?.aborted) onAbort();
+    abortSignal?.addEventListener('abort', onAbort);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers,
+        signal: controller.signal,
+        ...(body !== undefined && { body }),
+      });
+      const text = await response.text();
+
+      return { response, body: text.slice(0, MAX_RESPONSE_BODY) };
+    } catch (error) {
+      if (timedOut) return { error: `timed out after ${timeout} ms` };
+      return { error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      if (timer) clearTimeout(timer);
+      abortSignal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
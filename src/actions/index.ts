@@ -1,150 +1,464 @@
-import { exec } from 'node:child_process';
-import { promisify } from 'node:util';
-import type { ActionRunner, Logger } from '../types/index.js';
+import type {
+  Action,
+  ActionDefinition,
+  ActionRunner,
+  Config,
+  HttpAction,
+  LogAction,
+  Logger,
+  MacroAction,
+  MacroDefinition,
+  MacroFailurePolicy,
+  MacroStep,
+  MacroStepOptions,
+  MqttAction,
+  OscAction,
+  ShellAction,
+} from '../types/index.js';
+import { contextSignal, wait } from './executor.js';
+import { HttpActionRunner } from './http.js';
+import { CancelActionRunner, ShellActionRunner } from './shell.js';
+import { expectNumber, expectString } from './validation.js';
 
-const execAsync = promisify(exec);
+export { ShellActionRunner, ShellCommandError, CancelActionRunner, type ShellResult } from './shell.js';
+export { HttpActionRunner, HttpRequestError, type HttpResult } from './http.js';
+export { MqttActionRunner } from './mqtt.js';
+export { OscActionRunner } from './osc.js';
+export { fillTemplate, fillTemplateValue } from './template.js';
+
+// `<type>:<argument>` shorthand, e.g. `macro:a|b` or `log:Pit limiter on`
+const SHORTHAND_PATTERN = /^([a-z][\w-]*):([\s\S]*)$/;
+
+/**
+ * A short human-readable form of an action for log lines
+ */
+export function describeAction(definition: ActionDefinition): string {
+  if (typeof definition === 'string') return definition;
+
+  switch (definition.type) {
+    case 'shell': {
+      const { command, args } = definition as ShellAction;
+      return [command, ...(args ?? [])].join(' ');
+    }
+    case 'http': {
+      const { method, url, body } = definition as HttpAction;
+      return `${method ?? (body === undefined ? 'GET' : 'POST')} ${url}`;
+    }
+    case 'mqtt':
+      return `mqtt ${(definition as MqttAction).topic}`;
+    case 'osc':
+      return `osc ${(definition as OscAction).address}`;
+    case 'macro': {
+      const { name, steps } = definition as MacroAction;
+      return name ? `macro ${name}` : `macro (${steps?.length ?? 0} steps)`;
+    }
+    default:
+      return definition.type;
+  }
+}
 
 /**
  * Basic logging action runner
  */
-export class LogActionRunner implements ActionRunner {
+export class LogActionRunner implements ActionRunner<LogAction> {
   name = 'LogActionRunner';
+  type = 'log';
 
   constructor(private logger: Logger) {}
 
-  async execute(_action: string, context?: Record<string, unknown>): Promise<void> {
+  validate(action: LogAction): void {
+    if (action.message !== undefined) expectString(action, 'message');
+  }
+
+  fromShorthand(argument: string): LogAction {
+    return { type: 'log', message: argument };
+  }
+
+  async execute(action: LogAction, context?: Record<string, unknown>): Promise<void> {
     const buttonName = context?.buttonName as string || 'Unknown';
-    const buttonIndex = context?.buttonIndex as number;
-    
-    this.logger.info(`Button pressed: ${buttonName} (index: ${buttonIndex})`);
-    
+    const bindingId = context?.bindingId as string;
+    const trigger = context?.trigger as string || 'press';
+
+    this.logger.info(`Control ${trigger}: ${buttonName} (${bindingId})${action.message ? ` - ${action.message}` : ''}`);
+
+    if (context?.delta !== undefined) {
+      this.logger.info(`Encoder delta: ${context.delta}, value: ${context.value ?? 'n/a'}`);
+    }
+
     if (context?.rawData) {
       this.logger.debug('Raw data:', context.rawData);
     }
   }
 }
 
-/**
- * Shell command action runner
- */
-export class ShellActionRunner implements ActionRunner {
-  name = 'ShellActionRunner';
+// Nested macro calls beyond this are assumed to be a loop
+const MAX_CALL_DEPTH = 16;
 
-  constructor(private logger: Logger) {}
+const FAILURE_POLICIES = ['abort', 'continue'];
 
-  async execute(action: string, _context?: Record<string, unknown>): Promise<void> {
-    try {
-      this.logger.info(`Executing shell command: ${action}`);
-      
-      const { stdout, stderr } = await execAsync(action);
-      
-      if (stdout) {
-        this.logger.info('Command output:', stdout);
-      }
-      
-      if (stderr) {
-        this.logger.warn('Command stderr:', stderr);
-      }
-    } catch (error) {
-      this.logger.error(`Failed to execute command: ${action}`, error);
-    }
-  }
+type MacroControlStep = Exclude<MacroStep, ActionDefinition>;
+
+function isActionStep(step: MacroStep): step is ActionDefinition {
+  return typeof step === 'string' || 'type' in step;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
 }
 
 /**
- * Macro action runner for complex sequences
+ * Macro action runner for complex sequences. Steps are actions of any type
+ * or control steps: `wait`, `repeat`, `parallel` groups and `call`s to
+ * macros defined by name in the config.
+ *
+ * A failed step aborts the macro unless the step (or the macro) says
+ * `onError: continue`, or the step has a `fallback` to run instead.
  */
-export class MacroActionRunner implements ActionRunner {
+export class MacroActionRunner implements ActionRunner<MacroAction> {
   name = 'MacroActionRunner';
+  type = 'macro';
+  private macros = new Map<string, MacroDefinition>();
 
   constructor(
     private logger: Logger,
-    private actionRunners: ActionRunner[]
-  ) {}
-
-  async execute(action: string, context?: Record<string, unknown>): Promise<void> {
-    try {
-      // Parse macro definition (format: "macro:action1|action2|action3")
-      if (!action.startsWith('macro:')) {
-        throw new Error('Invalid macro format. Expected: macro:action1|action2|action3');
+    private registry: ActionRegistry,
+    macros: Record<string, MacroDefinition | MacroStep[]> = {}
+  ) {
+    for (const [name, macro] of Object.entries(macros)) {
+      this.macros.set(name, Array.isArray(macro) ? { steps: macro } : macro);
+    }
+  }
+
+  validate(action: MacroAction): void {
+    this.validateMacro(action, []);
+  }
+
+  /**
+   * `macro:name` for a defined macro, else `macro:action1|action2|action3`
+   */
+  fromShorthand(argument: string): MacroAction {
+    if (this.macros.has(argument)) {
+      return { type: 'macro', name: argument };
+    }
+    return { type: 'macro', steps: argument.split('|') };
+  }
+
+  async execute(action: MacroAction, context: Record<string, unknown> = {}): Promise<void> {
+    await this.runMacro(action, context, 0);
+  }
+
+  private async runMacro(action: MacroAction, context: Record<string, unknown>, depth: number): Promise<void> {
+    if (depth > MAX_CALL_DEPTH) {
+      throw new Error(`Macros nested deeper than ${MAX_CALL_DEPTH}`);
+    }
+
+    const macro = action.name !== undefined ? this.getMacro(action.name) : { steps: action.steps ?? [] };
+    const onError = action.onError ?? macro.onError ?? 'abort';
+
+    this.logger.info(`Executing macro ${action.name ? `${action.name} ` : ''}with ${macro.steps.length} steps`);
+    await this.runSteps(macro.steps, context, onError, depth);
+  }
+
+  private getMacro(name: string): MacroDefinition {
+    const macro = this.macros.get(name);
+    if (!macro) {
+      throw new Error(`Unknown macro: ${name}`);
+    }
+    return macro;
+  }
+
+  private async runSteps(
+    steps: MacroStep[],
+    context: Record<string, unknown>,
+    onError: MacroFailurePolicy,
+    depth: number
+  ): Promise<void> {
+    const signal = contextSignal(context);
+
+    for (const [index, step] of steps.entries()) {
+      if (signal?.aborted) {
+        this.logger.info(`Macro cancelled before step ${index + 1}`);
+        return;
       }
 
-      const macroActions = action.substring(6).split('|');
-      this.logger.info(`Executing macro with ${macroActions.length} actions`);
+      try {
+        await this.runStep(step, context, onError, depth);
+      } catch (error) {
+        const options: MacroStepOptions = typeof step === 'object' ? step : {};
 
-      for (const [index, macroAction] of macroActions.entries()) {
-        this.logger.debug(`Executing macro step ${index + 1}: ${macroAction}`);
-        
-        // Find appropriate action runner
-        const runner = this.findRunnerForAction(macroAction);
-        if (runner) {
-          await runner.execute(macroAction, context);
+        if (options.fallback !== undefined) {
+          this.logger.warn(`Macro step ${index + 1} failed, running its fallback: ${errorMessage(error)}`);
+          await this.runStep(options.fallback, context, onError, depth);
+        } else if ((options.onError ?? onError) === 'continue') {
+          this.logger.warn(`Macro step ${index + 1} failed, continuing: ${errorMessage(error)}`);
         } else {
-          this.logger.warn(`No runner found for action: ${macroAction}`);
+          throw new Error(`step ${index + 1} failed: ${errorMessage(error)}`);
         }
       }
-    } catch (error) {
-      this.logger.error(`Failed to execute macro: ${action}`, error);
     }
   }
 
-  private findRunnerForAction(action: string): ActionRunner | null {
-    // Simple heuristic: if it starts with a command-like pattern, use shell runner
-    if (action.includes(' ') || action.includes('/') || action.includes('\\')) {
-      return this.actionRunners.find(r => r.name === 'ShellActionRunner') || null;
+  private async runStep(
+    step: MacroStep,
+    context: Record<string, unknown>,
+    onError: MacroFailurePolicy,
+    depth: number
+  ): Promise<void> {
+    if (isActionStep(step)) {
+      const action = this.registry.normalize(step);
+      this.logger.debug(`Macro step: ${describeAction(action)}`);
+
+      // Nested macros run here so the depth limit covers them
+      if (action.type === 'macro') {
+        await this.runMacro(action as MacroAction, context, depth + 1);
+      } else {
+        await this.registry.executeAction(action, context);
+      }
+      return;
+    }
+
+    const signal = contextSignal(context);
+
+    if ('wait' in step) {
+      await wait(step.wait, signal);
+    } else if ('repeat' in step) {
+      for (let iteration = 1; iteration <= step.repeat && !signal?.aborted; iteration++) {
+        if (iteration > 1 && step.interval) await wait(step.interval, signal);
+        await this.runSteps(step.steps, { ...context, iteration }, onError, depth);
+      }
+    } else if ('parallel' in step) {
+      const results = await Promise.allSettled(
+        step.parallel.map(branch => this.runSteps([branch], context, onError, depth))
+      );
+      const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failed) throw failed.reason;
+    } else if ('call' in step) {
+      this.logger.debug(`Calling macro ${step.call}`);
+      await this.runMacro({ type: 'macro', name: step.call }, context, depth + 1);
+    }
+  }
+
+  /**
+   * `calls` is the chain of named macros being checked, to catch cycles
+   */
+  private validateMacro(action: MacroAction, calls: string[]): void {
+    if ((action.steps === undefined) === (action.name === undefined)) {
+      throw new Error('macro needs either "steps" or the "name" of a defined macro');
+    }
+    if (action.onError !== undefined && !FAILURE_POLICIES.includes(action.onError)) {
+      throw new Error(`"onError" must be one of ${FAILURE_POLICIES.join(', ')}`);
+    }
+
+    if (action.name !== undefined) {
+      this.validateCall(action.name, calls);
+    } else {
+      this.validateSteps(action.steps, calls);
     }
-    
-    // Default to log runner
-    return this.actionRunners.find(r => r.name === 'LogActionRunner') || null;
+  }
+
+  private validateSteps(steps: unknown, calls: string[]): void {
+    if (!Array.isArray(steps) || steps.length === 0) {
+      throw new Error('macro needs a non-empty "steps" list');
+    }
+
+    (steps as MacroStep[]).forEach((step, index) => {
+      try {
+        this.validateStep(step, calls);
+      } catch (error) {
+        throw new Error(`step ${index + 1}: ${errorMessage(error)}`);
+      }
+    });
+  }
+
+  private validateStep(step: MacroStep, calls: string[]): void {
+    if (typeof step === 'object' && step !== null) {
+      const { onError, fallback } = step as MacroStepOptions;
+      if (onError !== undefined && !FAILURE_POLICIES.includes(onError)) {
+        throw new Error(`"onError" must be one of ${FAILURE_POLICIES.join(', ')}`);
+      }
+      if (fallback !== undefined) this.validateStep(fallback, calls);
+    }
+
+    if (typeof step === 'string' || (typeof step === 'object' && step !== null && 'type' in step)) {
+      const action = this.registry.normalize(step as ActionDefinition);
+      if (action.type === 'macro') {
+        this.validateMacro(action as MacroAction, calls);
+      } else {
+        this.registry.validate(action);
+      }
+      return;
+    }
+
+    const control = step as MacroControlStep;
+
+    if ('wait' in control) {
+      expectNumber(control, 'wait');
+    } else if ('repeat' in control) {
+      if (!Number.isInteger(control.repeat) || control.repeat < 1) {
+        throw new Error('"repeat" must be a whole number of at least 1');
+      }
+      if (control.interval !== undefined) expectNumber(control, 'interval');
+      this.validateSteps(control.steps, calls);
+    } else if ('parallel' in control) {
+      if (!Array.isArray(control.parallel) || control.parallel.length === 0) {
+        throw new Error('"parallel" must be a non-empty list of steps');
+      }
+      control.parallel.forEach(branch => this.validateStep(branch, calls));
+    } else if ('call' in control) {
+      expectString(control, 'call');
+      this.validateCall(control.call, calls);
+    } else {
+      throw new Error('a step must be an action, or have "wait", "repeat", "parallel" or "call"');
+    }
+  }
+
+  private validateCall(name: string, calls: string[]): void {
+    if (calls.includes(name)) {
+      throw new Error(`macro ${name} calls itself: ${[...calls, name].join(' -> ')}`);
+    }
+
+    const macro = this.macros.get(name);
+    if (!macro) {
+      throw new Error(`unknown macro: ${name}`);
+    }
+    if (macro.onError !== undefined && !FAILURE_POLICIES.includes(macro.onError)) {
+      throw new Error(`macro ${name}: "onError" must be one of ${FAILURE_POLICIES.join(', ')}`);
+    }
+
+    this.validateSteps(macro.steps, [...calls, name]);
   }
 }
 
 /**
- * Action registry for managing multiple action runners
+ * Action registry: runners keyed by the action type they run
  */
 export class ActionRegistry {
-  private runners: ActionRunner[] = [];
+  private runners = new Map<string, ActionRunner>();
 
-  constructor(logger: Logger) {
+  constructor(logger: Logger, macros: Record<string, MacroDefinition | MacroStep[]> = {}) {
     // Register default runners
-    const logRunner = new LogActionRunner(logger);
     const shellRunner = new ShellActionRunner(logger);
-    
-    this.register(logRunner);
+
+    this.register(new LogActionRunner(logger));
     this.register(shellRunner);
-    this.register(new MacroActionRunner(logger, [logRunner, shellRunner]));
+    this.register(new CancelActionRunner(logger, shellRunner));
+    this.register(new HttpActionRunner(logger));
+    this.register(new MacroActionRunner(logger, this, macros));
   }
 
-  register(runner: ActionRunner): void {
-    this.runners.push(runner);
+  /**
+   * Register a runner for its action type, replacing any previous one
+   */
+  register<T extends Action>(runner: ActionRunner<T>): void {
+    this.runners.set(runner.type, runner as unknown as ActionRunner);
   }
 
-  async executeAction(action: string, context?: Record<string, unknown>): Promise<void> {
-    const runner = this.findRunnerForAction(action);
-    
-    if (runner) {
-      await runner.execute(action, context);
-    } else {
-      throw new Error(`No action runner found for action: ${action}`);
+  /**
+   * Expand the string shorthand: `log`, `<type>:<argument>` for a
+   * registered type that supports it, and anything else as a shell
+   * command line
+   */
+  normalize(definition: ActionDefinition): Action {
+    if (typeof definition !== 'string') {
+      if (typeof definition?.type !== 'string') {
+        throw new Error('action objects need a "type"');
+      }
+      return definition;
     }
-  }
 
-  private findRunnerForAction(action: string): ActionRunner | null {
-    // Check for macro actions first
-    if (action.startsWith('macro:')) {
-      return this.runners.find(r => r.name === 'MacroActionRunner') || null;
+    if (definition === 'log') {
+      return { type: 'log' };
     }
 
-    // Check for shell commands
-    if (action.includes(' ') || action.includes('/') || action.includes('\\')) {
-      return this.runners.find(r => r.name === 'ShellActionRunner') || null;
+    const shorthand = SHORTHAND_PATTERN.exec(definition);
+    const runner = shorthand ? this.runners.get(shorthand[1]) : undefined;
+    if (shorthand && runner?.fromShorthand) {
+      return runner.fromShorthand(shorthand[2]);
     }
 
-    // Default to log runner
-    return this.runners.find(r => r.name === 'LogActionRunner') || null;
+    return { type: 'shell', command: definition, shell: true };
+  }
+
+  /**
+   * Throw if an action has no runner or its runner rejects it
+   */
+  validate(definition: ActionDefinition): void {
+    const action = this.normalize(definition);
+    this.getRunnerFor(action).validate?.(action);
+  }
+
+  /**
+   * Run an action, resolving with its runner's result
+   */
+  async executeAction(definition: ActionDefinition, context?: Record<string, unknown>): Promise<unknown> {
+    const action = this.normalize(definition);
+    const runner = this.getRunnerFor(action);
+
+    runner.validate?.(action);
+    return runner.execute(action, context);
+  }
+
+  getRunner(type: string): ActionRunner | undefined {
+    return this.runners.get(type);
   }
 
   getAllRunners(): ActionRunner[] {
-    return [...this.runners];
+    return [...this.runners.values()];
   }
-} 
\ No newline at end of file
+
+  private getRunnerFor(action: Action): ActionRunner {
+    const runner = this.runners.get(action.type);
+    if (!runner) {
+      throw new Error(`No action runner for type: ${action.type}`);
+    }
+    return runner;
+  }
+}
+
+/**
+ * Every action in a config with where it is set, e.g. `actions.esc.press`
+ * or `layers.Pit.onEnter`, for validation at load time
+ */
+export function collectActions(config: Config): Array<[string, ActionDefinition]> {
+  const found: Array<[string, ActionDefinition]> = [];
+  const add = (where: string, action: ActionDefinition | undefined): void => {
+    if (action !== undefined) found.push([where, action]);
+  };
+
+  const addBindings = (prefix: string, mapping: Config['actions']): void => {
+    for (const [bindingId, binding] of Object.entries(mapping)) {
+      for (const trigger of ['action', 'press', 'release', 'change', 'tap', 'doubleTap', 'longPress', 'repeat'] as const) {
+        add(`${prefix}.${bindingId}.${trigger}`, binding[trigger]);
+      }
+    }
+  };
+
+  addBindings('actions', config.actions);
+
+  for (const layer of config.layers?.layers ?? []) {
+    addBindings(`layers.${layer.name}.actions`, layer.actions);
+    add(`layers.${layer.name}.onEnter`, layer.onEnter);
+    add(`layers.${layer.name}.onExit`, layer.onExit);
+  }
+
+  for (const chord of config.triggers?.chords ?? []) {
+    add(`triggers.chords.${chord.name}`, chord.action);
+  }
+  for (const sequence of config.triggers?.sequences ?? []) {
+    add(`triggers.sequences.${sequence.name}`, sequence.action);
+  }
+
+  add('lifecycle.onConnect', config.lifecycle?.onConnect);
+  add('lifecycle.onDisconnect', config.lifecycle?.onDisconnect);
+
+  for (const [filter, action] of Object.entries(config.mqtt?.subscriptions ?? {})) {
+    add(`mqtt.subscriptions.${filter}`, action);
+  }
+
+  // Named macros are checked even when nothing calls them yet
+  for (const name of Object.keys(config.macros ?? {})) {
+    add(`macros.${name}`, { type: 'macro', name });
+  }
+
+  return found;
+}
@@ -0,0 +1,60 @@
+import type { ActionRunner, Logger, MqttAction } from '../types/index.js';
+import type { MqttBridge } from '../mqtt/index.js';
+import { fillTemplate, fillTemplateValue } from './template.js';
+import { expectString } from './validation.js';
+
+/**
+ * Publishes to the broker of the `mqtt` config. The topic and payload are
+ * templates filled from the press context. Only registered when MQTT is
+ * configured.
+ */
+export class MqttActionRunner implements ActionRunner<MqttAction> {
+  name = 'MqttActionRunner';
+  type = 'mqtt';
+
+  constructor(
+    private logger: Logger,
+    private bridge: MqttBridge
+  ) {}
+
+  validate(action: MqttAction): void {
+    expectString(action, 'topic');
+    if (/[#+]/.test(action.topic)) {
+      throw new Error(`"topic" can't contain wildcards: ${action.topic}`);
+    }
+    if (action.qos !== undefined && ![0, 1, 2].includes(action.qos)) {
+      throw new Error('"qos" must be 0, 1 or 2');
+    }
+    if (action.retain !== undefined && typeof action.retain !== 'boolean') {
+      throw new Error('"retain" must be true or false');
+    }
+  }
+
+  /**
+   * `mqtt:topic payload`, the payload being everything after the first space
+   */
+  fromShorthand(argument: string): MqttAction {
+    const space = argument.indexOf(' ');
+    if (space === -1) {
+      return { type: 'mqtt', topic: argument };
+    }
+    return { type: 'mqtt', topic: argument.slice(0, space), payload: argument.slice(space + 1) };
+  }
+
+  async execute(action: MqttAction, context: Record<string, unknown> = {}): Promise<void> {
+    const topic = fillTemplate(action.topic, context);
+    let payload = '';
+
+    if (typeof action.payload === 'string') {
+      payload = fillTemplate(action.payload, context);
+    } else if (action.payload !== undefined) {
+      payload = JSON.stringify(fillTemplateValue(action.payload, context));
+    }
+
+    this.logger.info(`MQTT publish ${topic}: ${payload}`);
+    await this.bridge.publish(topic, payload, {
+      ...(action.retain !== undefined && { retain: action.retain }),
+      ...(action.qos !== undefined && { qos: action.qos }),
+    });
+  }
+}
@@ -0,0 +1,94 @@
+import type { ActionRunner, Logger, OscAction, OscArgument } from '../types/index.js';
+import { isInt32, toOscValue, type OscClient, type OscValue } from '../osc/index.js';
+import { fillTemplate, fillTemplateValue } from './template.js';
+import { expectString } from './validation.js';
+
+const ARGUMENT_TYPES = ['int', 'float', 'string', 'bool'];
+
+/**
+ * Parse a shorthand argument: `true`/`false`, numbers, and text
+ */
+function parseArgument(text: string): OscArgument {
+  if (text === 'true' || text === 'false') return text === 'true';
+  const number = Number(text);
+  return text !== '' && Number.isFinite(number) ? number : text;
+}
+
+/**
+ * Sends OSC messages over UDP, e.g. to a lighting desk or audio mixer. The
+ * address and string arguments are templates filled from the press
+ * context. Only registered when OSC is configured.
+ */
+export class OscActionRunner implements ActionRunner<OscAction> {
+  name = 'OscActionRunner';
+  type = 'osc';
+
+  constructor(
+    private logger: Logger,
+    private client: OscClient
+  ) {}
+
+  validate(action: OscAction): void {
+    expectString(action, 'address');
+    if (!action.address.startsWith('/')) {
+      throw new Error(`"address" must start with /: ${action.address}`);
+    }
+    this.client.resolveTarget(action, 'osc action');
+
+    if (action.args !== undefined && !Array.isArray(action.args)) {
+      throw new Error('"args" must be a list');
+    }
+    for (const arg of action.args ?? []) {
+      if (typeof arg === 'object' && arg !== null && !ARGUMENT_TYPES.includes(arg.type)) {
+        throw new Error(`argument types are ${ARGUMENT_TYPES.join(', ')}, not ${arg.type}`);
+      }
+      // A placeholder is only checked once it is filled in
+      if (typeof arg === 'object' && arg?.type === 'int' && typeof arg.value === 'number' && !isInt32(Math.trunc(arg.value))) {
+        throw new Error(`int argument out of the 32-bit range: ${arg.value}`);
+      }
+    }
+  }
+
+  /**
+   * `osc:<target> <address> [args...]`, e.g. `osc:mixer /ch/01/mix/on 0`
+   */
+  fromShorthand(argument: string): OscAction {
+    const [target = '', address = '', ...args] = argument.trim().split(/\s+/);
+    return { type: 'osc', target, address, args: args.map(parseArgument) };
+  }
+
+  async execute(action: OscAction, context: Record<string, unknown> = {}): Promise<void> {
+    const target = this.client.resolveTarget(action, 'osc action');
+    const address = fillTemplate(action.address, context);
+    const args = (action.args ?? []).map(arg => this.toValue(arg, context));
+
+    this.logger.info(`OSC ${target.host}:${target.port} ${address}`, args.map(arg => ('value' in arg ? arg.value : arg.tag)));
+    await this.client.send(target, address, args);
+  }
+
+  private toValue(arg: OscArgument, context: Record<string, unknown>): OscValue {
+    if (typeof arg !== 'object' || arg === null) {
+      return toOscValue(fillTemplateValue(arg, context));
+    }
+
+    const value = fillTemplateValue(arg.value, context);
+
+    switch (arg.type) {
+      case 'int':
+      case 'float': {
+        const number = Number(value);
+        if (!Number.isFinite(number)) {
+          throw new Error(`OSC ${arg.type} argument is not a number: ${value}`);
+        }
+        if (arg.type === 'int' && !isInt32(Math.trunc(number))) {
+          throw new Error(`OSC int argument out of the 32-bit range: ${value}`);
+        }
+        return { tag: arg.type === 'int' ? 'i' : 'f', value: number };
+      }
+      case 'bool':
+        return { tag: value === true || value === 'true' || value === 1 || value === '1' ? 'T' : 'F' };
+      default:
+        return { tag: 's', value: typeof value === 'string' ? value : JSON.stringify(value) };
+    }
+  }
+}
@@ -0,0 +1,287 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import type { ActionRunner, CancelAction, Logger, ShellAction } from '../types/index.js';
+import { contextSignal } from './executor.js';
+import { expectNumber, expectString, expectStringArray, expectStringRecord } from './validation.js';
+
+type Signal = NonNullable<ChildProcess['signalCode']>;
+
+const DEFAULT_KILL_GRACE = 2000;
+const DEFAULT_MAX_OUTPUT = 64 * 1024;
+
+// Context fields exposed to shell commands as HID_* environment variables
+const CONTEXT_ENVIRONMENT: Record<string, string> = {
+  controlId: 'HID_CONTROL_ID',
+  bindingId: 'HID_BINDING_ID',
+  buttonName: 'HID_BUTTON_NAME',
+  trigger: 'HID_TRIGGER',
+  state: 'HID_STATE',
+  value: 'HID_VALUE',
+  delta: 'HID_DELTA',
+  raw: 'HID_RAW',
+  layer: 'HID_LAYER',
+  deviceId: 'HID_DEVICE_ID',
+  iteration: 'HID_ITERATION',
+};
+
+export function contextEnvironment(context?: Record<string, unknown>): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const [key, variable] of Object.entries(CONTEXT_ENVIRONMENT)) {
+    const value = context?.[key];
+    if (value !== undefined && value !== null) {
+      env[variable] = String(value);
+    }
+  }
+
+  return env;
+}
+
+/**
+ * How a command ended. `exitCode` is null when it was killed by a signal.
+ */
+export interface ShellResult {
+  exitCode: number | null;
+  signal: Signal | null;
+  stdout: string;
+  stderr: string;
+  truncated: boolean; // output went over `maxOutput` and was cut
+  timedOut: boolean;
+  cancelled: boolean;
+}
+
+/**
+ * A command that failed: non-zero exit, killed after its timeout, or a
+ * signal it didn't ask for. Carries the result for the caller.
+ */
+export class ShellCommandError extends Error {
+  constructor(
+    message: string,
+    readonly result: ShellResult
+  ) {
+    super(message);
+    this.name = 'ShellCommandError';
+  }
+}
+
+interface RunningCommand {
+  id: string;
+  child: ChildProcess;
+  stop: (reason: 'timeout' | 'cancel') => void;
+}
+
+/**
+ * Shell command action runner.
+ *
+ * Commands are spawned directly with `args` as their argv, so nothing is
+ * interpreted by a shell; `shell: true` runs `command` as a shell command
+ * line instead (the string shorthand does this). A command that outlives its
+ * `timeout` or is cancelled gets `killSignal`, then SIGKILL after
+ * `killGrace` ms. The whole process group is signalled, so scripts don't
+ * leave their children running.
+ *
+ * Running commands are tracked under their `id` (the binding id by default)
+ * so a `cancel` action on another binding can stop them.
+ */
+export class ShellActionRunner implements ActionRunner<ShellAction> {
+  name = 'ShellActionRunner';
+  type = 'shell';
+  private running = new Set<RunningCommand>();
+
+  constructor(private logger: Logger) {}
+
+  validate(action: ShellAction): void {
+    expectString(action, 'command');
+    if (action.args !== undefined) expectStringArray(action, 'args');
+    if (action.shell && action.args !== undefined) {
+      throw new Error('"args" can\'t be used with "shell": put them in the command line');
+    }
+    if (action.id !== undefined) expectString(action, 'id');
+    if (action.cwd !== undefined) expectString(action, 'cwd');
+    if (action.env !== undefined) expectStringRecord(action, 'env');
+    if (action.timeout !== undefined) expectNumber(action, 'timeout');
+    if (action.killGrace !== undefined) expectNumber(action, 'killGrace');
+    if (action.maxOutput !== undefined) expectNumber(action, 'maxOutput');
+    if (action.killSignal !== undefined) expectString(action, 'killSignal');
+  }
+
+  fromShorthand(argument: string): ShellAction {
+    return { type: 'shell', command: argument, shell: true };
+  }
+
+  async execute(action: ShellAction, context?: Record<string, unknown>): Promise<ShellResult> {
+    const commandLine = [action.command, ...(action.args ?? [])].join(' ');
+    this.logger.info(`Executing shell command: ${commandLine}`);
+
+    const result = await this.run(action, context);
+
+    if (result.stdout) {
+      this.logger.info('Command output:', result.stdout);
+    }
+
+    if (result.stderr) {
+      this.logger.warn('Command stderr:', result.stderr);
+    }
+
+    if (result.truncated) {
+      this.logger.warn(`Command output over ${action.maxOutput ?? DEFAULT_MAX_OUTPUT} bytes was truncated: ${commandLine}`);
+    }
+
+    if (result.cancelled) {
+      this.logger.info(`Command cancelled: ${commandLine}`);
+      return result;
+    }
+
+    if (result.timedOut) {
+      throw new ShellCommandError(`Command timed out after ${action.timeout} ms: ${commandLine}`, result);
+    }
+
+    if (result.exitCode !== 0) {
+      const status = result.exitCode === null ? `was killed by ${result.signal}` : `exited with code ${result.exitCode}`;
+      throw new ShellCommandError(`Command ${status}: ${commandLine}`, result);
+    }
+
+    this.logger.debug(`Command exited with code 0: ${commandLine}`);
+    return result;
+  }
+
+  /**
+   * Stop running commands with an id, or every running command for `*`.
+   * Returns how many were signalled.
+   */
+  cancel(id: string): number {
+    let count = 0;
+
+    for (const command of this.running) {
+      if (id === '*' || command.id === id) {
+        command.stop('cancel');
+        count++;
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * Ids of the commands still running
+   */
+  getRunning(): string[] {
+    return [...this.running].map(command => command.id);
+  }
+
+  private run(action: ShellAction, context?: Record<string, unknown>): Promise<ShellResult> {
+    return new Promise((resolve, reject) => {
+      const maxOutput = action.maxOutput ?? DEFAULT_MAX_OUTPUT;
+      const killSignal = (action.killSignal ?? 'SIGTERM') as Signal;
+      const output = { stdout: '', stderr: '' };
+      let truncated = false;
+      let stopReason: 'timeout' | 'cancel' | null = null;
+      let killTimer: ReturnType<typeof setTimeout> | null = null;
+
+      const child = spawn(action.command, action.args ?? [], {
+        shell: action.shell ?? false,
+        env: { ...process.env, ...contextEnvironment(context), ...action.env },
+        stdio: ['ignore', 'pipe', 'pipe'],
+        // Its own process group, so a kill reaches everything it started
+        detached: process.platform !== 'win32',
+        windowsHide: true,
+        ...(action.cwd !== undefined && { cwd: action.cwd }),
+      });
+
+      const signal = (name: Signal): void => {
+        try {
+          if (child.pid !== undefined && process.platform !== 'win32') {
+            process.kill(-child.pid, name);
+          } else {
+            child.kill(name);
+          }
+        } catch {
+          // Already gone
+        }
+      };
+
+      const command: RunningCommand = {
+        id: action.id ?? String(context?.bindingId ?? action.command),
+        child,
+        stop: reason => {
+          if (stopReason) return;
+          stopReason = reason;
+          signal(killSignal);
+          killTimer = setTimeout(() => signal('SIGKILL'), action.killGrace ?? DEFAULT_KILL_GRACE);
+        },
+      };
+      this.running.add(command);
+
+      const abortSignal = contextSignal(context);
+      const onAbort = (): void => command.stop('cancel');
+      if (abortSignal?.aborted) onAbort();
+      abortSignal?.addEventListener('abort', onAbort);
+
+      const timeoutTimer = action.timeout ? setTimeout(() => command.stop('timeout'), action.timeout) : null;
+
+      const collect = (stream: 'stdout' | 'stderr') => (chunk: Buffer): void => {
+        const room = maxOutput - Buffer.byteLength(output[stream]);
+        if (chunk.length > room) truncated = true;
+        if (room > 0) output[stream] += chunk.subarray(0, room).toString();
+      };
+      child.stdout?.on('data', collect('stdout'));
+      child.stderr?.on('data', collect('stderr'));
+
+      const finish = (): void => {
+        this.running.delete(command);
+        abortSignal?.removeEventListener('abort', onAbort);
+        if (timeoutTimer) clearTimeout(timeoutTimer);
+        if (killTimer) clearTimeout(killTimer);
+      };
+
+      child.on('error', error => {
+        finish();
+        reject(error);
+      });
+
+      child.on('close', (exitCode, exitSignal) => {
+        finish();
+        resolve({
+          exitCode,
+          signal: exitSignal,
+          stdout: output.stdout,
+          stderr: output.stderr,
+          truncated,
+          timedOut: stopReason === 'timeout',
+          cancelled: stopReason === 'cancel',
+        });
+      });
+    });
+  }
+}
+
+/**
+ * Stops commands started by shell actions, e.g. a "stop" button for a
+ * script started by another binding
+ */
+export class CancelActionRunner implements ActionRunner<CancelAction> {
+  name = 'CancelActionRunner';
+  type = 'cancel';
+
+  constructor(
+    private logger: Logger,
+    private shellRunner: ShellActionRunner
+  ) {}
+
+  validate(action: CancelAction): void {
+    expectString(action, 'id');
+  }
+
+  fromShorthand(argument: string): CancelAction {
+    return { type: 'cancel', id: argument };
+  }
+
+  async execute(action: CancelAction): Promise<void> {
+    const count = this.shellRunner.cancel(action.id);
+
+    if (count > 0) {
+      this.logger.info(`Cancelling ${count} running command(s) for ${action.id}`);
+    } else {
+      this.logger.info(`No running commands for ${action.id}`);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * `{{field}}` placeholders filled from the action context, e.g.
+ * `{{controlId}}`, `{{buttonName}}`, `{{deviceId}}`, `{{value}}`
+ */
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([\w.]+)\s*\}\}$/;
+
+function lookup(context: Record<string, unknown>, path: string): unknown {
+  let value: unknown = context;
+  for (const key of path.split('.')) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Buffer.isBuffer(value)) return value.toString('hex');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Fill the placeholders of a string. Missing fields become empty. `encode`
+ * escapes each value, e.g. `encodeURIComponent` for a url.
+ */
+export function fillTemplate(
+  template: string,
+  context: Record<string, unknown> = {},
+  encode: (text: string) => string = text => text
+): string {
+  return template.replace(PLACEHOLDER, (_match, path: string) => encode(toText(lookup(context, path))));
+}
+
+/**
+ * Fill the strings of a JSON value. A string that is only a placeholder
+ * takes the field's own value, so `"{{value}}"` stays a number.
+ */
+export function fillTemplateValue(template: unknown, context: Record<string, unknown> = {}): unknown {
+  if (typeof template === 'string') {
+    const whole = WHOLE_PLACEHOLDER.exec(template);
+    if (whole) {
+      const value = lookup(context, whole[1]);
+      return value === undefined || Buffer.isBuffer(value) ? toText(value) : value;
+    }
+    return fillTemplate(template, context);
+  }
+
+  if (Array.isArray(template)) {
+    return template.map(item => fillTemplateValue(item, context));
+  }
+
+  if (typeof template === 'object' && template !== null) {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [key, fillTemplateValue(value, context)])
+    );
+  }
+
+  return template;
+}
@@ -0,0 +1,33 @@
+/**
+ * Field checks for action validation. Each throws with the field name so
+ * load-time errors point at the broken setting.
+ */
+
+export function expectString(action: object, field: string): void {
+  const value = (action as Record<string, unknown>)[field];
+  if (typeof value !== 'string' || value === '') {
+    throw new Error(`"${field}" must be a non-empty string`);
+  }
+}
+
+export function expectNumber(action: object, field: string): void {
+  const value = (action as Record<string, unknown>)[field];
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new Error(`"${field}" must be a non-negative number`);
+  }
+}
+
+export function expectStringArray(action: object, field: string): void {
+  const value = (action as Record<string, unknown>)[field];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error(`"${field}" must be a list of strings`);
+  }
+}
+
+export function expectStringRecord(action: object, field: string): void {
+  const value = (action as Record<string, unknown>)[field];
+  if (typeof value !== 'object' || value === null || Array.isArray(value) ||
+      Object.values(value).some(item => typeof item !== 'string')) {
+    throw new Error(`"${field}" must be an object of strings`);
+  }
+}
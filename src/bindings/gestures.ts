@@ -0,0 +1,155 @@
+import type { ActionBinding, ActionDefinition, GestureConfig } from '../types/index.js';
+import type { ResolvedBinding } from './index.js';
+
+export type Gesture = 'tap' | 'doubleTap' | 'longPress' | 'repeat';
+
+export type GestureHandler = (
+  resolved: ResolvedBinding,
+  gesture: Gesture,
+  action: ActionDefinition,
+  context: Record<string, unknown>
+) => void;
+
+export const DEFAULT_GESTURES: Required<GestureConfig> = {
+  doubleTapWindow: 300,
+  longPressThreshold: 500,
+  repeatDelay: 500,
+  repeatRate: 100,
+};
+
+interface GestureState {
+  resolved: ResolvedBinding;
+  context: Record<string, unknown>;
+  held: boolean;
+  consumed: boolean; // a long press or repeat fired, so the release is not a tap
+  longPressTimer: ReturnType<typeof setTimeout> | null;
+  repeatTimer: ReturnType<typeof setTimeout> | null;
+  tapTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Turns the press and release of gesture bindings into taps, double taps,
+ * long presses and hold-to-repeat.
+ *
+ * - longPress fires once the control has been held for the threshold
+ * - repeat fires after the initial delay and then at the repeat rate until release
+ * - a release before either of those is a tap; with doubleTap bound, the tap
+ *   waits out the double tap window in case a second tap follows
+ */
+export class GestureRecognizer {
+  private states = new Map<string, GestureState>();
+
+  constructor(private onGesture: GestureHandler) {}
+
+  handle(resolved: ResolvedBinding, context: Record<string, unknown>): void {
+    if (resolved.trigger === 'press') {
+      this.handlePress(resolved, context);
+    } else if (resolved.trigger === 'release') {
+      this.handleRelease(resolved.bindingId);
+    }
+  }
+
+  /**
+   * Cancel every pending gesture timer
+   */
+  reset(): void {
+    for (const state of this.states.values()) {
+      this.clearHoldTimers(state);
+      if (state.tapTimer) clearTimeout(state.tapTimer);
+    }
+    this.states.clear();
+  }
+
+  private handlePress(resolved: ResolvedBinding, context: Record<string, unknown>): void {
+    const { binding } = resolved;
+    const timings = this.getTimings(binding);
+    const previous = this.states.get(resolved.bindingId);
+
+    // Second press inside the double tap window
+    if (previous?.tapTimer && binding.doubleTap) {
+      clearTimeout(previous.tapTimer);
+      previous.tapTimer = null;
+      previous.held = true;
+      previous.consumed = true;
+      this.fire(previous.resolved, 'doubleTap', binding.doubleTap, context);
+      return;
+    }
+
+    const state: GestureState = {
+      resolved,
+      context,
+      held: true,
+      consumed: false,
+      longPressTimer: null,
+      repeatTimer: null,
+      tapTimer: null,
+    };
+    this.states.set(resolved.bindingId, state);
+
+    if (binding.longPress) {
+      const longPress = binding.longPress;
+      state.longPressTimer = setTimeout(() => {
+        state.longPressTimer = null;
+        state.consumed = true;
+        this.fire(resolved, 'longPress', longPress, context);
+      }, timings.longPressThreshold);
+    }
+
+    if (binding.repeat) {
+      const repeat = binding.repeat;
+      const tick = (): void => {
+        state.consumed = true;
+        this.fire(resolved, 'repeat', repeat, context);
+        state.repeatTimer = setTimeout(tick, timings.repeatRate);
+      };
+      state.repeatTimer = setTimeout(tick, timings.repeatDelay);
+    }
+  }
+
+  private handleRelease(bindingId: string): void {
+    const state = this.states.get(bindingId);
+    if (!state || !state.held) return;
+
+    state.held = false;
+    this.clearHoldTimers(state);
+
+    if (state.consumed) {
+      this.states.delete(bindingId);
+      return;
+    }
+
+    const { binding } = state.resolved;
+    const tap = binding.tap ?? binding.action;
+
+    if (binding.doubleTap) {
+      state.tapTimer = setTimeout(() => {
+        this.states.delete(bindingId);
+        if (tap) this.fire(state.resolved, 'tap', tap, state.context);
+      }, this.getTimings(binding).doubleTapWindow);
+      return;
+    }
+
+    this.states.delete(bindingId);
+    if (tap) this.fire(state.resolved, 'tap', tap, state.context);
+  }
+
+  private clearHoldTimers(state: GestureState): void {
+    if (state.longPressTimer) clearTimeout(state.longPressTimer);
+    if (state.repeatTimer) clearTimeout(state.repeatTimer);
+    state.longPressTimer = null;
+    state.repeatTimer = null;
+  }
+
+  private fire(
+    resolved: ResolvedBinding,
+    gesture: Gesture,
+    action: ActionDefinition,
+    context: Record<string, unknown>
+  ): void {
+    this.onGesture(resolved, gesture, action, { ...context, gesture });
+  }
+
+  private getTimings(binding: ActionBinding): Required<GestureConfig> {
+    return { ...DEFAULT_GESTURES, ...binding.gestures };
+  }
+}
@@ -0,0 +1,143 @@
+import type { ActionBinding, ActionDefinition, ActionMapping, ControlEvent, LayerDefinition } from '../types/index.js';
+
+export type BindingTrigger = 'press' | 'release' | 'change';
+
+/**
+ * A binding id being pressed or released, e.g. `esc` or `three_way_1.up`
+ */
+export interface Activation {
+  bindingId: string;
+  trigger: 'press' | 'release';
+}
+
+export interface ResolvedBinding {
+  bindingId: string;
+  binding: ActionBinding;
+  trigger: BindingTrigger;
+  layer?: string;
+}
+
+export interface ResolvedAction extends ResolvedBinding {
+  action: ActionDefinition;
+}
+
+/**
+ * The binding ids a control event presses and releases. A multi-position
+ * control releases the position it left and presses the one it entered.
+ */
+export function eventActivations(event: ControlEvent): Activation[] {
+  if (event.type === 'press' || event.type === 'release') {
+    return [{ bindingId: event.controlId, trigger: event.type }];
+  }
+
+  // Encoder and axis values are not positions; they only fire `change`
+  if (event.kind === 'encoder' || event.kind === 'axis') {
+    return [];
+  }
+
+  const activations: Activation[] = [];
+
+  if (event.previousState !== null && event.previousState !== false) {
+    activations.push({ bindingId: `${event.controlId}.${event.previousState}`, trigger: 'release' });
+  }
+
+  if (event.state !== null && event.state !== false) {
+    activations.push({ bindingId: `${event.controlId}.${event.state}`, trigger: 'press' });
+  }
+
+  return activations;
+}
+
+/**
+ * Whether a binding reacts to taps, double taps, long presses or repeats
+ */
+export function hasGestures(binding: ActionBinding): boolean {
+  return Boolean(binding.tap || binding.doubleTap || binding.longPress || binding.repeat);
+}
+
+/**
+ * The action a binding runs directly for a trigger. Gesture bindings treat
+ * the `action` shorthand as their tap action, so it is not run on press.
+ */
+export function actionForTrigger(binding: ActionBinding, trigger: BindingTrigger): ActionDefinition | undefined {
+  if (trigger === 'press') {
+    return binding.press ?? (hasGestures(binding) ? undefined : binding.action);
+  }
+
+  return binding[trigger];
+}
+
+/**
+ * Resolves control events to the actions bound to them by control id.
+ *
+ * Binary controls look up their own id. Multi-position controls (three-way
+ * switches, hats) release the binding of the position they left, press the
+ * binding of the position they entered (`three_way_1.home`) and fire the
+ * `change` action bound to the control itself.
+ *
+ * When a layer is active its bindings are checked first, falling back to
+ * the base bindings for anything the layer does not override. In each,
+ * a binding qualified with the device id (`left:esc`) wins over the plain
+ * one, so a shared binding set can tell identical boxes apart.
+ */
+export class BindingResolver {
+  constructor(
+    private bindings: ActionMapping,
+    private deviceId?: string
+  ) {}
+
+  /**
+   * Every binding an event touches, whether or not it has an action for
+   * the trigger (gesture bindings still need to see the press and release)
+   */
+  resolveBindings(event: ControlEvent, layer?: LayerDefinition | null): ResolvedBinding[] {
+    const resolved: ResolvedBinding[] = [];
+
+    for (const activation of eventActivations(event)) {
+      const binding = this.resolveActivation(activation, layer);
+      if (binding) resolved.push(binding);
+    }
+
+    if (event.type === 'change') {
+      const binding = this.find(event.controlId, 'change', layer);
+      if (binding) resolved.push(binding);
+    }
+
+    return resolved;
+  }
+
+  resolveActivation(activation: Activation, layer?: LayerDefinition | null): ResolvedBinding | null {
+    return this.find(activation.bindingId, activation.trigger, layer);
+  }
+
+  resolve(event: ControlEvent, layer?: LayerDefinition | null): ResolvedAction[] {
+    return this.resolveBindings(event, layer).flatMap(resolved => {
+      const action = actionForTrigger(resolved.binding, resolved.trigger);
+      return action ? [{ ...resolved, action }] : [];
+    });
+  }
+
+  getBinding(bindingId: string): ActionBinding | undefined {
+    return this.lookup(this.bindings, bindingId);
+  }
+
+  private find(
+    bindingId: string,
+    trigger: BindingTrigger,
+    layer?: LayerDefinition | null
+  ): ResolvedBinding | null {
+    const layerBinding = layer ? this.lookup(layer.actions, bindingId) : undefined;
+    const binding = layerBinding ?? this.lookup(this.bindings, bindingId);
+    if (!binding) return null;
+
+    if (layerBinding && layer) {
+      return { bindingId, binding, trigger, layer: layer.name };
+    }
+
+    return { bindingId, binding, trigger };
+  }
+
+  private lookup(mapping: ActionMapping, bindingId: string): ActionBinding | undefined {
+    return (this.deviceId ? mapping[`${this.deviceId}:${bindingId}`] : undefined) ?? mapping[bindingId];
+  }
+}
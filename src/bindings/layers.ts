@@ -0,0 +1,95 @@
+import type { ControlEvent, ControlState, LayerConfig, LayerDefinition } from '../types/index.js';
+
+export interface LayerChange {
+  previous: LayerDefinition | null;
+  current: LayerDefinition | null;
+}
+
+/**
+ * Tracks the live position of the layer selector controls (typically the
+ * latching three-way switches and toggles) and picks the active layer.
+ * The first layer whose `when` conditions all hold wins; with none matching
+ * only the base bindings apply.
+ */
+export class LayerManager {
+  private selectors: Set<string>;
+  private states: Record<string, ControlState> = {};
+  private activeLayer: LayerDefinition | null = null;
+  private seeded = false;
+
+  constructor(private config?: LayerConfig) {
+    this.selectors = new Set(config?.selectors ?? []);
+
+    for (const layer of config?.layers ?? []) {
+      for (const controlId of Object.keys(layer.when)) {
+        if (!this.selectors.has(controlId)) {
+          throw new Error(`Layer ${layer.name} depends on ${controlId}, which is not a layer selector`);
+        }
+      }
+    }
+  }
+
+  isSelector(controlId: string): boolean {
+    return this.selectors.has(controlId);
+  }
+
+  isSeeded(): boolean {
+    return this.seeded || this.selectors.size === 0;
+  }
+
+  /**
+   * Take the initial selector positions from the parser's baseline, so a
+   * switch that was already latched at startup selects its layer
+   */
+  seed(states: Record<string, ControlState>): void {
+    for (const controlId of this.selectors) {
+      if (controlId in states) {
+        this.states[controlId] = states[controlId];
+      }
+    }
+
+    this.seeded = true;
+    this.activeLayer = this.findLayer();
+  }
+
+  /**
+   * Wait for a new baseline, e.g. after the device was unplugged and the
+   * selectors may have moved in the meantime
+   */
+  reset(): void {
+    this.seeded = false;
+  }
+
+  /**
+   * Record a control event and report the layer change it caused, if any
+   */
+  apply(event: ControlEvent): LayerChange | null {
+    if (!this.selectors.has(event.controlId)) {
+      return null;
+    }
+
+    this.states[event.controlId] = event.state;
+
+    const previous = this.activeLayer;
+    const current = this.findLayer();
+
+    if (previous === current) {
+      return null;
+    }
+
+    this.activeLayer = current;
+    return { previous, current };
+  }
+
+  getActiveLayer(): LayerDefinition | null {
+    return this.activeLayer;
+  }
+
+  private findLayer(): LayerDefinition | null {
+    const layers = this.config?.layers ?? [];
+
+    return layers.find(layer =>
+      Object.entries(layer.when).every(([controlId, state]) => this.states[controlId] === state)
+    ) ?? null;
+  }
+}
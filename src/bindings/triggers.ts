@@ -0,0 +1,220 @@
+import type { ActionDefinition, ChordTrigger, SequenceTrigger, TriggerConfig } from '../types/index.js';
+import type { Activation } from './index.js';
+
+export type TriggerDecision = 'pass' | 'hold' | 'suppress';
+
+export interface FiredTrigger {
+  kind: 'chord' | 'sequence';
+  name: string;
+  action: ActionDefinition;
+  controls: string[];
+}
+
+export const DEFAULT_CHORD_WINDOW = 50;
+export const DEFAULT_SEQUENCE_TIMEOUT = 1000;
+
+/**
+ * Matches chords and timed sequences against binding activations.
+ *
+ * Presses of chord members are held back for the chord window. If the chord
+ * completes in that time the held presses are dropped and those members stay
+ * suppressed until released; a member whose press already went out keeps
+ * its release. Otherwise the held presses are dispatched in order, through
+ * `schedule` so they stay in line with the events that came after them.
+ * Sequences only observe presses and never suppress anything.
+ */
+export class TriggerMatcher {
+  private chords: ChordTrigger[];
+  private sequences: SequenceTrigger[];
+  private history: Array<{ bindingId: string; at: number }> = [];
+  private historyLength: number;
+  private chordMembers: Set<string>;
+  private chordWindow: number;
+  private held = new Set<string>();
+  private suppressed = new Set<string>();
+  private activeChords = new Set<ChordTrigger>();
+  private pending: Array<{ activation: Activation; dispatch: () => Promise<void> }> = [];
+  private pendingTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    config: TriggerConfig | undefined,
+    private onTrigger: (trigger: FiredTrigger) => void,
+    private schedule: (flush: () => Promise<void>) => void
+  ) {
+    this.chords = config?.chords ?? [];
+    this.sequences = config?.sequences ?? [];
+    this.historyLength = Math.max(0, ...this.sequences.map(sequence => sequence.steps.length));
+    this.chordMembers = new Set(this.chords.flatMap(chord => chord.controls));
+    this.chordWindow = config?.chordWindow ?? DEFAULT_CHORD_WINDOW;
+
+    for (const chord of this.chords) {
+      if (chord.controls.length < 2) {
+        throw new Error(`Chord ${chord.name} needs at least two controls`);
+      }
+    }
+  }
+
+  /**
+   * Decide what happens to an activation. On 'pass' the caller dispatches
+   * it now; on 'hold' the matcher calls `dispatch` later unless a chord
+   * claims it; on 'suppress' it is dropped.
+   */
+  handle(activation: Activation, timestamp: number, dispatch: () => Promise<void>): TriggerDecision {
+    if (activation.trigger === 'press') {
+      this.advanceSequences(activation.bindingId, timestamp);
+      return this.handlePress(activation, dispatch);
+    }
+
+    return this.handleRelease(activation, dispatch);
+  }
+
+  /**
+   * Drop held activations and forget every held control
+   */
+  reset(): void {
+    if (this.pendingTimer) clearTimeout(this.pendingTimer);
+    this.pendingTimer = null;
+    this.pending = [];
+    this.held.clear();
+    this.suppressed.clear();
+    this.activeChords.clear();
+    this.history = [];
+  }
+
+  private handlePress(activation: Activation, dispatch: () => Promise<void>): TriggerDecision {
+    const { bindingId } = activation;
+
+    if (!this.chordMembers.has(bindingId)) {
+      return 'pass';
+    }
+
+    this.held.add(bindingId);
+
+    const chord = this.chords.find(candidate =>
+      !this.activeChords.has(candidate) &&
+      candidate.controls.includes(bindingId) &&
+      candidate.controls.every(control => this.held.has(control))
+    );
+
+    if (chord) {
+      // Only presses that never went out are swallowed along with their release
+      const heldBack = new Set([
+        bindingId,
+        ...this.pending
+          .map(entry => entry.activation.bindingId)
+          .filter(control => chord.controls.includes(control)),
+      ]);
+
+      this.activeChords.add(chord);
+      heldBack.forEach(control => this.suppressed.add(control));
+      this.pending = this.pending.filter(entry => !heldBack.has(entry.activation.bindingId));
+      if (this.pending.length === 0 && this.pendingTimer) {
+        clearTimeout(this.pendingTimer);
+        this.pendingTimer = null;
+      }
+      this.onTrigger({ kind: 'chord', name: chord.name, action: chord.action, controls: chord.controls });
+      return 'suppress';
+    }
+
+    if (this.suppressed.has(bindingId)) {
+      return 'suppress';
+    }
+
+    this.hold(activation, dispatch);
+    return 'hold';
+  }
+
+  private handleRelease(activation: Activation, dispatch: () => Promise<void>): TriggerDecision {
+    const { bindingId } = activation;
+
+    if (!this.chordMembers.has(bindingId)) {
+      return 'pass';
+    }
+
+    this.held.delete(bindingId);
+
+    for (const chord of this.activeChords) {
+      if (chord.controls.includes(bindingId)) {
+        this.activeChords.delete(chord);
+      }
+    }
+
+    if (this.suppressed.delete(bindingId)) {
+      return 'suppress';
+    }
+
+    // Keep the release behind its own press if that is still held back
+    if (this.pending.some(entry => entry.activation.bindingId === bindingId)) {
+      this.hold(activation, dispatch);
+      return 'hold';
+    }
+
+    return 'pass';
+  }
+
+  private hold(activation: Activation, dispatch: () => Promise<void>): void {
+    this.pending.push({ activation, dispatch });
+
+    if (!this.pendingTimer) {
+      this.pendingTimer = setTimeout(() => {
+        // Presses held after this point get a window of their own
+        const batch = this.pending;
+        this.pending = [];
+        this.pendingTimer = null;
+        this.schedule(() => this.flush(batch));
+      }, this.chordWindow);
+    }
+  }
+
+  /**
+   * Dispatch the held activations in order. One that fails doesn't stop the
+   * rest, so a release is never lost behind its press; the first error is
+   * rethrown afterwards.
+   */
+  private async flush(pending: Array<{ dispatch: () => Promise<void> }>): Promise<void> {
+    let failure: { error: unknown } | null = null;
+    for (const entry of pending) {
+      try {
+        await entry.dispatch();
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+    if (failure) throw failure.error;
+  }
+
+  /**
+   * Record a press and fire any sequence whose steps end the recent history
+   */
+  private advanceSequences(bindingId: string, timestamp: number): void {
+    if (this.historyLength === 0) return;
+
+    this.history.push({ bindingId, at: timestamp });
+    if (this.history.length > this.historyLength) {
+      this.history.shift();
+    }
+
+    for (const sequence of this.sequences) {
+      const timeout = sequence.timeout ?? DEFAULT_SEQUENCE_TIMEOUT;
+      const recent = this.history.slice(-sequence.steps.length);
+
+      const matches = recent.length === sequence.steps.length &&
+        recent.every((entry, index) =>
+          entry.bindingId === sequence.steps[index] &&
+          (index === 0 || entry.at - recent[index - 1].at <= timeout)
+        );
+
+      if (matches) {
+        // Start over so overlapping sequences don't fire off the same presses
+        this.history = [];
+        this.onTrigger({
+          kind: 'sequence',
+          name: sequence.name,
+          action: sequence.action,
+          controls: sequence.steps,
+        });
+        return;
+      }
+    }
+  }
+}
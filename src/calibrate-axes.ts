@@ -0,0 +1,83 @@
+import { createInterface } from 'node:readline/promises';
+import { NodeHIDTransport } from './hid/node-hid-transport.js';
+import { AxisCalibrator } from './hid/axes.js';
+import { ParserRegistry } from './parsers/index.js';
+import { loadProfiles, saveProfileCalibration } from './profiles/index.js';
+
+const USAGE = 'Usage: npm run calibrate -- <vendorId> <productId> [profilesDir]';
+
+/**
+ * Calibrate a connected device's axes and save the result to its profile.
+ * IDs are hexadecimal, e.g. `npm run calibrate -- 0x1234 0x5678`.
+ */
+async function main(): Promise<void> {
+  const [vendorArg, productArg, profilesDir] = process.argv.slice(2);
+  const vendorId = parseInt(vendorArg ?? '', 16);
+  const productId = parseInt(productArg ?? '', 16);
+
+  if (Number.isNaN(vendorId) || Number.isNaN(productId)) {
+    throw new Error(USAGE);
+  }
+
+  const transport = new NodeHIDTransport();
+  const device = transport.enumerate().find(candidate => candidate.vendorId === vendorId && candidate.productId === productId);
+  if (!device) {
+    throw new Error(`No device found with vendor ID 0x${vendorId.toString(16)} and product ID 0x${productId.toString(16)}`);
+  }
+
+  const registry = new ParserRegistry(loadProfiles(profilesDir));
+  const profile = registry.selectProfile(device);
+
+  // The catch-all profile is shared by every device, so calibration for one
+  // device can't go there
+  if (!profile?.file || (profile.match.vendorId === undefined && profile.match.productId === undefined)) {
+    throw new Error('No profile for this device; export one first with npm run export-profile');
+  }
+
+  const parser = registry.createParser(profile.parser, { profile });
+  const connection = transport.open(device);
+  const descriptor = connection.getReportDescriptor?.();
+  if (descriptor) parser.setReportDescriptor?.(descriptor);
+
+  const axisIds = Object.keys(parser.getAxisRanges?.() ?? {});
+  if (axisIds.length === 0) {
+    connection.close();
+    throw new Error(`Profile ${profile.name} (parser ${parser.name}) reports no axes`);
+  }
+
+  const calibrator = new AxisCalibrator(axisIds);
+  connection.on('data', data => {
+    parser.parse(data);
+    calibrator.sample(parser.getControlStates?.() ?? {});
+  });
+
+  const prompt = createInterface({ input: process.stdin, output: process.stdout });
+
+  try {
+    console.log(`🎚️  Calibrating ${axisIds.join(', ')} on ${device.product || 'device'} (profile ${profile.name})`);
+    await prompt.question('Leave every axis at rest, then press Enter ');
+    calibrator.markRest();
+
+    await prompt.question('Move every axis through its full travel, then press Enter ');
+    const calibrations = calibrator.getCalibrations();
+
+    if (Object.keys(calibrations).length === 0) {
+      throw new Error('No axis moved; nothing was saved');
+    }
+
+    for (const [id, { min, max, center }] of Object.entries(calibrations)) {
+      console.log(`  ${id}: ${min}..${max}${center !== undefined ? `, center ${center}` : ''}`);
+    }
+
+    saveProfileCalibration(profile.file, calibrations);
+    console.log(`✅ Saved calibration to ${profile.file}`);
+  } finally {
+    prompt.close();
+    connection.close();
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
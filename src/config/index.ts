@@ -1,5 +1,5 @@
-import { readFileSync } from 'node:fs';
-import type { Config } from '../types/index.js';
+import { existsSync, readFileSync } from 'node:fs';
+import type { Config, DeviceConfig } from '../types/index.js';
 
 const DEFAULT_CONFIG: Config = {
   device: {
@@ -11,53 +11,67 @@ const DEFAULT_CONFIG: Config = {
     frequency: 10, // 10ms polling frequency
     debounce: 50, // 50ms debounce
   },
-  actions: {
-    0: { name: 'Button 1', action: 'log', description: 'Log button press' },
-    1: { name: 'Button 2', action: 'log', description: 'Log button press' },
-    2: { name: 'Button 3', action: 'log', description: 'Log button press' },
-    3: { name: 'Button 4', action: 'log', description: 'Log button press' },
-    4: { name: 'Button 5', action: 'log', description: 'Log button press' },
-    5: { name: 'Button 6', action: 'log', description: 'Log button press' },
-    6: { name: 'Button 7', action: 'log', description: 'Log button press' },
-    7: { name: 'Button 8', action: 'log', description: 'Log button press' },
-  },
+  actions: {}, // default bindings come from the device profile
   logging: {
     level: 'info',
     enableRawData: false,
   },
 };
 
+/**
+ * Id for a device without an explicit one: VID:PID plus the serial number
+ * or path when the config pins one down, e.g. `36e6:8001:A1B2C3`
+ */
+export function defaultDeviceId(device: DeviceConfig): string {
+  const hex = (value: number) => value.toString(16).padStart(4, '0');
+  const base = `${hex(device.vendorId)}:${hex(device.productId)}`;
+  const qualifier = device.serialNumber || device.path;
+
+  return qualifier ? `${base}:${qualifier}` : base;
+}
+
+const DEFAULT_CONFIG_FILE = 'config.json';
+
+/**
+ * Loads the config file, then applies the `HID_*` environment variables
+ * over it. The file is the given path, else `HID_CONFIG`, else
+ * `config.json` in the working directory when there is one.
+ */
 export class ConfigManager {
   private config: Config;
+  readonly configPath: string | null;
 
   constructor(configPath?: string) {
-    this.config = this.loadConfig(configPath);
+    this.configPath = configPath ?? process.env.HID_CONFIG ?? (existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : null);
+    this.config = this.loadConfig(this.configPath);
   }
 
-  private loadConfig(configPath?: string): Config {
-    try {
-      if (configPath) {
-        const configFile = readFileSync(configPath, 'utf-8');
-        const fileConfig = JSON.parse(configFile) as Partial<Config>;
-        return this.mergeConfig(DEFAULT_CONFIG, fileConfig);
+  private loadConfig(configPath: string | null): Config {
+    let config = DEFAULT_CONFIG;
+
+    // A config that is there but can't be read stops the monitor rather
+    // than running it with the default bindings
+    if (configPath) {
+      try {
+        const fileConfig = JSON.parse(readFileSync(configPath, 'utf-8')) as Partial<Config>;
+        config = this.mergeConfig(DEFAULT_CONFIG, fileConfig);
+      } catch (error) {
+        throw new Error(`Failed to load config file ${configPath}: ${error instanceof Error ? error.message : error}`);
       }
-    } catch (error) {
-      console.warn(`Failed to load config file: ${error}`);
     }
 
     // Override with environment variables
-    const envConfig = this.loadFromEnvironment();
-    return this.mergeConfig(DEFAULT_CONFIG, envConfig);
+    return this.mergeConfig(config, this.loadFromEnvironment(config));
   }
 
-  private loadFromEnvironment(): Partial<Config> {
+  private loadFromEnvironment(base: Config): Partial<Config> {
     const envConfig: Partial<Config> = {};
 
     if (process.env.HID_VENDOR_ID) {
       envConfig.device = { 
         ...envConfig.device, 
         vendorId: parseInt(process.env.HID_VENDOR_ID, 16),
-        productId: envConfig.device?.productId ?? DEFAULT_CONFIG.device.productId
+        productId: envConfig.device?.productId ?? base.device.productId
       };
     }
 
@@ -65,7 +79,7 @@ export class ConfigManager {
       envConfig.device = { 
         ...envConfig.device, 
         productId: parseInt(process.env.HID_PRODUCT_ID, 16),
-        vendorId: envConfig.device?.vendorId ?? DEFAULT_CONFIG.device.vendorId
+        vendorId: envConfig.device?.vendorId ?? base.device.vendorId
       };
     }
 
@@ -73,8 +87,8 @@ export class ConfigManager {
       envConfig.device = { 
         ...envConfig.device, 
         name: process.env.HID_DEVICE_NAME,
-        vendorId: envConfig.device?.vendorId ?? DEFAULT_CONFIG.device.vendorId,
-        productId: envConfig.device?.productId ?? DEFAULT_CONFIG.device.productId
+        vendorId: envConfig.device?.vendorId ?? base.device.vendorId,
+        productId: envConfig.device?.productId ?? base.device.productId
       };
     }
 
@@ -82,7 +96,7 @@ export class ConfigManager {
       envConfig.polling = { 
         ...envConfig.polling, 
         frequency: parseInt(process.env.HID_POLLING_FREQUENCY),
-        debounce: envConfig.polling?.debounce ?? DEFAULT_CONFIG.polling.debounce
+        debounce: envConfig.polling?.debounce ?? base.polling.debounce
       };
     }
 
@@ -90,7 +104,27 @@ export class ConfigManager {
       envConfig.polling = { 
         ...envConfig.polling, 
         debounce: parseInt(process.env.HID_DEBOUNCE),
-        frequency: envConfig.polling?.frequency ?? DEFAULT_CONFIG.polling.frequency
+        frequency: envConfig.polling?.frequency ?? base.polling.frequency
+      };
+    }
+
+    if (process.env.HID_PROFILES_DIR) {
+      envConfig.profilesDir = process.env.HID_PROFILES_DIR;
+    }
+
+    if (process.env.HID_CAPTURE_FILE) {
+      envConfig.capture = { ...base.capture, ...envConfig.capture, record: process.env.HID_CAPTURE_FILE };
+    }
+
+    if (process.env.HID_REPLAY_FILE) {
+      envConfig.capture = { ...base.capture, ...envConfig.capture, replay: process.env.HID_REPLAY_FILE };
+    }
+
+    if (process.env.HID_REPLAY_SPEED) {
+      envConfig.capture = {
+        ...base.capture,
+        ...envConfig.capture,
+        replaySpeed: process.env.HID_REPLAY_SPEED === 'instant' ? 'instant' : parseFloat(process.env.HID_REPLAY_SPEED),
       };
     }
 
@@ -98,7 +132,7 @@ export class ConfigManager {
       envConfig.logging = { 
         ...envConfig.logging, 
         level: process.env.HID_LOG_LEVEL as Config['logging']['level'],
-        enableRawData: envConfig.logging?.enableRawData ?? DEFAULT_CONFIG.logging.enableRawData
+        enableRawData: envConfig.logging?.enableRawData ?? base.logging.enableRawData
       };
     }
 
@@ -106,7 +140,7 @@ export class ConfigManager {
       envConfig.logging = { 
         ...envConfig.logging, 
         enableRawData: process.env.HID_ENABLE_RAW_DATA === 'true',
-        level: envConfig.logging?.level ?? DEFAULT_CONFIG.logging.level
+        level: envConfig.logging?.level ?? base.logging.level
       };
     }
 
@@ -128,6 +162,26 @@ export class ConfigManager {
     return this.config;
   }
 
+  /**
+   * The devices to open, each with its id filled in
+   */
+  getDevices(): Array<DeviceConfig & { id: string }> {
+    const devices = (this.config.devices ?? [this.config.device]).map(device => ({
+      ...device,
+      id: device.id ?? defaultDeviceId(device),
+    }));
+
+    const seen = new Set<string>();
+    for (const device of devices) {
+      if (seen.has(device.id)) {
+        throw new Error(`Duplicate device id ${device.id}: give each device an id, serial number or path`);
+      }
+      seen.add(device.id);
+    }
+
+    return devices;
+  }
+
   updateConfig(updates: Partial<Config>): void {
     this.config = this.mergeConfig(this.config, updates);
   }
@@ -0,0 +1,59 @@
+import { writeFileSync } from 'node:fs';
+import { NodeHIDTransport } from './hid/node-hid-transport.js';
+import { parseReportDescriptor } from './parsers/hid-descriptor.js';
+import { createDescriptorProfile } from './parsers/descriptor-parser.js';
+
+const USAGE = 'Usage: npm run export-profile -- <vendorId> <productId> [output.json]';
+
+/**
+ * Export a starting device profile from a connected device's report
+ * descriptor. IDs are hexadecimal, e.g. `npm run export-profile -- 0x1234 0x5678`.
+ */
+function main(): void {
+  const [vendorArg, productArg, output] = process.argv.slice(2);
+  const vendorId = parseInt(vendorArg ?? '', 16);
+  const productId = parseInt(productArg ?? '', 16);
+
+  if (Number.isNaN(vendorId) || Number.isNaN(productId)) {
+    throw new Error(USAGE);
+  }
+
+  const transport = new NodeHIDTransport();
+  const devices = transport.enumerate().filter(device => device.vendorId === vendorId && device.productId === productId);
+
+  if (devices.length === 0) {
+    throw new Error(`No device found with vendor ID 0x${vendorId.toString(16)} and product ID 0x${productId.toString(16)}`);
+  }
+
+  // Composite devices expose one HID interface per report descriptor;
+  // export the first one that has input fields
+  for (const device of devices) {
+    const connection = transport.open(device);
+    const descriptor = connection.getReportDescriptor?.() ?? null;
+    connection.close();
+
+    if (!descriptor) continue;
+
+    const layout = parseReportDescriptor(descriptor);
+    if (layout.fields.length === 0) continue;
+
+    const json = JSON.stringify(createDescriptorProfile(device, layout), null, 2) + '\n';
+
+    if (output) {
+      writeFileSync(output, json);
+      console.log(`✅ Wrote profile for ${device.product || 'device'} (${layout.fields.length} controls) to ${output}`);
+    } else {
+      process.stdout.write(json);
+    }
+    return;
+  }
+
+  throw new Error('Could not read a report descriptor with input fields from the device');
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,247 @@
+import type { AxisCalibration, AxisConfig, AxisThreshold, ControlEvent, ControlState } from '../types/index.js';
+
+const DEFAULT_MIN_CHANGE = 0.01;
+const DEFAULT_HYSTERESIS = 0.05;
+
+// A centered axis whose rest reading is this close to an end is a pedal
+// or throttle that happens to rest there
+const CENTER_MARGIN = 0.1;
+
+/**
+ * Map a raw reading to 0..1, or -1..1 around the center, after calibration,
+ * inversion, deadzone and curve
+ */
+export function normalizeAxis(raw: number, config: AxisConfig, calibration: AxisCalibration): number {
+  const { min, max } = calibration;
+  const center = calibration.center ?? (min + max) / 2;
+  const centered = config.centered ?? (calibration.center !== undefined || min < 0);
+
+  let value: number;
+  if (centered) {
+    value = raw >= center ? (raw - center) / (max - center || 1) : (raw - center) / (center - min || 1);
+  } else {
+    value = (raw - min) / (max - min || 1);
+  }
+
+  value = Math.min(1, Math.max(centered ? -1 : 0, value));
+
+  if (config.invert) {
+    value = centered ? -value : 1 - value;
+  }
+
+  // Deadzone and curve shape the distance from rest, keeping the direction
+  const sign = value < 0 ? -1 : 1;
+  const deadzone = config.deadzone ?? 0;
+  let magnitude = Math.abs(value);
+  magnitude = magnitude <= deadzone ? 0 : (magnitude - deadzone) / (1 - deadzone);
+  magnitude = applyCurve(magnitude, config.curve ?? 'linear');
+
+  return Math.round(sign * magnitude * 10000) / 10000 || 0;
+}
+
+function applyCurve(magnitude: number, curve: NonNullable<AxisConfig['curve']>): number {
+  if (typeof curve === 'number') return magnitude ** curve;
+
+  switch (curve) {
+    case 'quadratic': return magnitude ** 2;
+    case 'cubic': return magnitude ** 3;
+    case 's-curve': return magnitude * magnitude * (3 - 2 * magnitude);
+    default: return magnitude;
+  }
+}
+
+function thresholdActive(threshold: AxisThreshold, value: number, wasActive: boolean): boolean {
+  const hysteresis = wasActive ? threshold.hysteresis ?? DEFAULT_HYSTERESIS : 0;
+
+  if (threshold.above !== undefined) {
+    return value >= threshold.above - hysteresis;
+  }
+  if (threshold.below !== undefined) {
+    return value <= threshold.below + hysteresis;
+  }
+  return false;
+}
+
+interface AxisState {
+  value: number;
+  thresholds: Set<string>; // names of the thresholds currently crossed
+}
+
+/**
+ * Turns raw axis events into normalized ones and fires thresholds.
+ *
+ * Axis events keep their control id; `state` becomes the normalized value
+ * and `raw` the reading. Changes smaller than `minChange` are dropped,
+ * except when the axis reaches rest or an end. A crossed threshold is
+ * reported as a momentary control `axis.name`, so it binds like a button.
+ */
+export class AxisProcessor {
+  private axes = new Map<string, AxisState>();
+
+  constructor(
+    private config: Record<string, AxisConfig> = {},
+    private getRanges: () => Record<string, AxisCalibration> = () => ({})
+  ) {}
+
+  process(events: ControlEvent[]): ControlEvent[] {
+    return events.flatMap(event => (event.kind === 'axis' ? this.processAxis(event) : [event]));
+  }
+
+  /**
+   * Forget the last values, e.g. after a reconnect
+   */
+  reset(): void {
+    this.axes.clear();
+  }
+
+  /**
+   * Parser states with every calibrated axis normalized like its events
+   */
+  normalizeStates(states: Record<string, ControlState>): Record<string, ControlState> {
+    const ranges = this.getRanges();
+    const normalized = { ...states };
+
+    for (const [id, state] of Object.entries(states)) {
+      const config = this.config[id] ?? {};
+      const calibration = config.calibration ?? ranges[id];
+      if (typeof state === 'number' && calibration) {
+        normalized[id] = normalizeAxis(state, config, calibration);
+      }
+    }
+
+    return normalized;
+  }
+
+  private processAxis(event: ControlEvent): ControlEvent[] {
+    if (typeof event.state !== 'number') return [event];
+
+    const config = this.config[event.controlId] ?? {};
+    const calibration = config.calibration ?? this.getRanges()[event.controlId];
+    if (!calibration) return [event];
+
+    const normalize = (raw: number): number => normalizeAxis(raw, config, calibration);
+
+    const value = normalize(event.state);
+    let axis = this.axes.get(event.controlId);
+
+    if (!axis) {
+      // The parser's baseline is the previous reading
+      const previous = typeof event.previousState === 'number' ? normalize(event.previousState) : 0;
+      axis = {
+        value: previous,
+        thresholds: new Set((config.thresholds ?? []).filter(t => thresholdActive(t, previous, false)).map(t => t.name)),
+      };
+      this.axes.set(event.controlId, axis);
+    }
+
+    const events: ControlEvent[] = [];
+    const minChange = config.minChange ?? DEFAULT_MIN_CHANGE;
+    const atRestOrEnd = value === 0 || Math.abs(value) === 1;
+
+    if (value !== axis.value && (Math.abs(value - axis.value) >= minChange || atRestOrEnd)) {
+      events.push({ ...event, previousState: axis.value, state: value, raw: event.state });
+      axis.value = value;
+    }
+
+    for (const threshold of config.thresholds ?? []) {
+      const wasActive = axis.thresholds.has(threshold.name);
+      const active = thresholdActive(threshold, value, wasActive);
+      if (active === wasActive) continue;
+
+      if (active) {
+        axis.thresholds.add(threshold.name);
+      } else {
+        axis.thresholds.delete(threshold.name);
+      }
+
+      events.push({
+        controlId: `${event.controlId}.${threshold.name}`,
+        kind: 'momentary',
+        type: active ? 'press' : 'release',
+        previousState: wasActive,
+        state: active,
+        timestamp: event.timestamp,
+        deviceId: event.deviceId,
+        raw: event.state,
+      });
+    }
+
+    return events;
+  }
+}
+
+/**
+ * Captures calibration interactively: the readings while every axis is at
+ * rest, and the extremes while each is moved through its full travel
+ */
+export class AxisCalibrator {
+  private current = new Map<string, number>();
+  private rest = new Map<string, number>();
+  private extremes = new Map<string, { min: number; max: number }>();
+
+  constructor(private axisIds: string[]) {}
+
+  /**
+   * Record the current readings, e.g. the parser's control states
+   */
+  sample(states: Record<string, ControlState>): void {
+    for (const id of this.axisIds) {
+      const value = states[id];
+      if (typeof value !== 'number') continue;
+
+      this.current.set(id, value);
+
+      const extreme = this.extremes.get(id);
+      this.extremes.set(id, extreme
+        ? { min: Math.min(extreme.min, value), max: Math.max(extreme.max, value) }
+        : { min: value, max: value });
+    }
+  }
+
+  /**
+   * Take the current readings as the rest positions and restart the extremes
+   */
+  markRest(): void {
+    this.rest = new Map(this.current);
+    this.extremes.clear();
+    for (const [id, value] of this.current) {
+      this.extremes.set(id, { min: value, max: value });
+    }
+  }
+
+  /**
+   * Calibration for every axis that moved. Axes resting near one end
+   * (pedals, throttles) get no center.
+   */
+  getCalibrations(): Record<string, AxisCalibration> {
+    const calibrations: Record<string, AxisCalibration> = {};
+
+    for (const [id, { min, max }] of this.extremes) {
+      if (max <= min) continue;
+
+      const rest = this.rest.get(id);
+      const margin = (max - min) * CENTER_MARGIN;
+      const centered = rest !== undefined && rest > min + margin && rest < max - margin;
+
+      calibrations[id] = centered ? { min, max, center: rest } : { min, max };
+    }
+
+    return calibrations;
+  }
+}
+
+/**
+ * Merge axis settings per axis, later sources winning field by field, so a
+ * config can add thresholds to an axis calibrated in the profile
+ */
+export function mergeAxisConfigs(...sources: Array<Record<string, AxisConfig> | undefined>): Record<string, AxisConfig> {
+  const merged: Record<string, AxisConfig> = {};
+
+  for (const source of sources) {
+    for (const [id, config] of Object.entries(source ?? {})) {
+      merged[id] = { ...merged[id], ...config };
+    }
+  }
+
+  return merged;
+}
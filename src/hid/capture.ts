@@ -0,0 +1,75 @@
+import { createWriteStream, readFileSync, type WriteStream } from 'node:fs';
+import type { HIDDevice } from '../types/index.js';
+
+/**
+ * One raw input report as written to a capture file. Captures are JSON
+ * Lines, one record per report, so they can be appended to while recording
+ * and grepped or trimmed by hand.
+ */
+export interface CaptureRecord {
+  time: number; // wall clock ms when the report arrived
+  offset: number; // ms since the first report of the capture
+  length: number;
+  vendorId: number;
+  productId: number;
+  path: string;
+  serialNumber: string;
+  data: string; // hex
+}
+
+/**
+ * Writes every raw report handed to it to a capture file
+ */
+export class CaptureRecorder {
+  private stream: WriteStream;
+  private startedAt: number | null = null;
+  private count = 0;
+
+  constructor(readonly filePath: string) {
+    this.stream = createWriteStream(filePath, { flags: 'w' });
+  }
+
+  record(data: Buffer, device: HIDDevice): void {
+    const time = Date.now();
+    this.startedAt ??= time;
+
+    const record: CaptureRecord = {
+      time,
+      offset: time - this.startedAt,
+      length: data.length,
+      vendorId: device.vendorId,
+      productId: device.productId,
+      path: device.path ?? '',
+      serialNumber: device.serialNumber ?? '',
+      data: data.toString('hex'),
+    };
+
+    this.stream.write(`${JSON.stringify(record)}\n`);
+    this.count++;
+  }
+
+  getCount(): number {
+    return this.count;
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.stream.end(resolve));
+  }
+}
+
+/**
+ * Read a capture file, skipping blank lines
+ */
+export function readCapture(filePath: string): CaptureRecord[] {
+  return readFileSync(filePath, 'utf8')
+    .split('\n')
+    .flatMap((line, index) => {
+      if (line.trim() === '') return [];
+
+      try {
+        return [JSON.parse(line) as CaptureRecord];
+      } catch {
+        throw new Error(`Invalid capture record on line ${index + 1} of ${filePath}`);
+      }
+    });
+}
@@ -0,0 +1,117 @@
+import type { Config, ControlEvent, ControlKind, DebounceRule, ParsedEvent } from '../types/index.js';
+
+/**
+ * Defaults per control kind. Encoders report single detents that must
+ * never be merged and axes move continuously; latching switches settle;
+ * buttons and the hat react at once and only fold the chatter that follows.
+ */
+const DEFAULT_STRATEGIES: Record<ControlKind, DebounceRule> = {
+  momentary: { strategy: 'lockout' },
+  toggle: { strategy: 'settle' },
+  'three-way': { strategy: 'settle' },
+  encoder: { strategy: 'none' },
+  hat: { strategy: 'lockout' },
+  axis: { strategy: 'none' },
+};
+
+interface ControlWindow {
+  timer: ReturnType<typeof setTimeout>;
+  // State the control was in before the window, as last reported downstream
+  settledState: ControlEvent['previousState'];
+  latest: { controlEvent: ControlEvent; parsedEvent: ParsedEvent } | null;
+}
+
+/**
+ * Debounces each control on its own timer instead of holding back the whole
+ * device. Transitions are only ever merged into the net change they add up
+ * to, never dropped, so a quick press and release still arrives as both.
+ */
+export class ControlDebouncer {
+  private windows = new Map<string, ControlWindow>();
+
+  constructor(
+    private polling: Config['polling'],
+    private emit: (controlEvent: ControlEvent, parsedEvent: ParsedEvent) => void
+  ) {}
+
+  push(controlEvent: ControlEvent, parsedEvent: ParsedEvent): void {
+    const rule = this.getRule(controlEvent);
+    const ms = rule.ms ?? this.polling.debounce;
+
+    if (rule.strategy === 'none' || ms <= 0) {
+      this.emit(controlEvent, parsedEvent);
+      return;
+    }
+
+    const window = this.windows.get(controlEvent.controlId);
+
+    if (rule.strategy === 'settle') {
+      if (window) clearTimeout(window.timer);
+      this.open(controlEvent.controlId, ms, window?.settledState ?? controlEvent.previousState, {
+        controlEvent,
+        parsedEvent,
+      });
+      return;
+    }
+
+    // Lockout: pass the first transition, remember the rest for the window end
+    if (window) {
+      window.latest = { controlEvent, parsedEvent };
+      return;
+    }
+
+    this.emit(controlEvent, parsedEvent);
+    this.open(controlEvent.controlId, ms, controlEvent.state, null);
+  }
+
+  /**
+   * Forget every pending transition
+   */
+  reset(): void {
+    for (const window of this.windows.values()) {
+      clearTimeout(window.timer);
+    }
+    this.windows.clear();
+  }
+
+  private getRule(controlEvent: ControlEvent): DebounceRule {
+    const { debounceByControl, debounceByKind } = this.polling;
+
+    return (
+      debounceByControl?.[controlEvent.controlId] ??
+      debounceByKind?.[controlEvent.kind] ??
+      DEFAULT_STRATEGIES[controlEvent.kind]
+    );
+  }
+
+  private open(
+    controlId: string,
+    ms: number,
+    settledState: ControlWindow['settledState'],
+    latest: ControlWindow['latest']
+  ): void {
+    const timer = setTimeout(() => this.close(controlId, ms), ms);
+    this.windows.set(controlId, { timer, settledState, latest });
+  }
+
+  /**
+   * End a window by emitting the net transition, if the control ended up
+   * somewhere other than where it started
+   */
+  private close(controlId: string, ms: number): void {
+    const window = this.windows.get(controlId);
+    this.windows.delete(controlId);
+
+    if (!window?.latest) return;
+
+    const { controlEvent, parsedEvent } = window.latest;
+    if (controlEvent.state === window.settledState) return;
+
+    this.emit({ ...controlEvent, previousState: window.settledState }, parsedEvent);
+
+    // A lockout window restarts after each emitted transition
+    if (this.getRule(controlEvent).strategy === 'lockout') {
+      this.open(controlId, ms, controlEvent.state, null);
+    }
+  }
+}
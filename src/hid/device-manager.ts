@@ -1,39 +1,119 @@
-import HID from 'node-hid';
-import type { HIDDevice, ParsedEvent, Config, Logger } from '../types/index.js';
+import type {
+  HIDDevice,
+  ParsedEvent,
+  ControlEvent,
+  Config,
+  Logger,
+  ActionDefinition,
+  ControlInfo,
+  ControlState,
+  VirtualInput,
+} from '../types/index.js';
 import type { EventParser } from '../parsers/index.js';
-import type { ActionRegistry } from '../actions/index.js';
-
+import { describeAction, type ActionRegistry } from '../actions/index.js';
+import { ActionExecutor } from '../actions/executor.js';
+import {
+  BindingResolver,
+  actionForTrigger,
+  eventActivations,
+  hasGestures,
+  type ResolvedBinding,
+} from '../bindings/index.js';
+import { GestureRecognizer } from '../bindings/gestures.js';
+import { TriggerMatcher, type FiredTrigger } from '../bindings/triggers.js';
+import { LayerManager, type LayerChange } from '../bindings/layers.js';
+import { ControlDebouncer } from './debouncer.js';
+import { AxisProcessor } from './axes.js';
+import type { HIDConnection, HIDTransport } from './transport.js';
+import type { CaptureRecorder } from './capture.js';
+import { defaultDeviceId } from '../config/index.js';
+import { createControlEvent } from '../parsers/control-events.js';
+
+export interface DeviceManagerOptions {
+  transport: HIDTransport;
+  recorder?: CaptureRecorder | null;
+  // Paths already opened by other managers, shared so two managers for the
+  // same VID/PID never grab the same box
+  claimedPaths?: Set<string>;
+  // Shared between managers so the concurrency limit covers every device
+  executor?: ActionExecutor;
+}
+
+/**
+ * Outputs that mirror a device, e.g. the MQTT bridge. Control events reach
+ * them after the bindings have seen them.
+ */
+export interface DeviceObserver {
+  connectionChanged?(device: HIDDeviceManager, connected: boolean): void;
+  statesReady?(device: HIDDeviceManager): void; // the first report after connecting set every control's state
+  controlEvent?(device: HIDDeviceManager, event: ControlEvent): void;
+}
+
+/**
+ * Owns one configured device: finds and opens it, parses its reports and
+ * runs its bindings. Several managers run side by side for several devices.
+ */
 export class HIDDeviceManager {
-  private device: HID.HID | null = null;
+  readonly deviceId: string;
+  private device: HIDConnection | null = null;
+  private deviceInfo: HIDDevice | null = null;
   private isConnected = false;
-  private lastButtonStates: boolean[] = [];
-  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private debouncer: ControlDebouncer;
+  private axisProcessor: AxisProcessor;
+  private processing: Promise<void> = Promise.resolve();
+  private watching = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private bindingResolver: BindingResolver;
+  private layerManager: LayerManager;
+  private gestureRecognizer: GestureRecognizer;
+  private triggerMatcher: TriggerMatcher;
+  private transport: HIDTransport;
+  private recorder: CaptureRecorder | null;
+  private claimedPaths: Set<string>;
+  private executor: ActionExecutor;
+  private observers = new Set<DeviceObserver>();
+  private statesReady = false;
 
   constructor(
     private config: Config,
     private logger: Logger,
     private parser: EventParser,
-    private actionRegistry: ActionRegistry
-  ) {}
+    private actionRegistry: ActionRegistry,
+    options: DeviceManagerOptions
+  ) {
+    this.deviceId = config.device.id ?? defaultDeviceId(config.device);
+    this.transport = options.transport;
+    this.recorder = options.recorder ?? null;
+    this.claimedPaths = options.claimedPaths ?? new Set();
+    this.executor = options.executor ?? new ActionExecutor(logger, config.execution);
+
+    this.debouncer = new ControlDebouncer(config.polling, (controlEvent, parsedEvent) => {
+      // Keep events in the order they settle, even while actions are running
+      this.processing = this.processing.then(() => this.processControlEvent(controlEvent, parsedEvent));
+    });
+    this.axisProcessor = new AxisProcessor(config.axes, () => this.parser.getAxisRanges?.() ?? {});
+    this.bindingResolver = new BindingResolver(config.actions, this.deviceId);
+    this.layerManager = new LayerManager(config.layers);
+    this.gestureRecognizer = new GestureRecognizer((resolved, gesture, action, context) => {
+      this.runBindingAction(resolved, gesture, action, context);
+    });
+    this.triggerMatcher = new TriggerMatcher(config.triggers, trigger => {
+      this.triggerCombination(trigger);
+    }, flush => {
+      // Held presses go behind the events already queued, like any other
+      this.processing = this.processing.then(flush).catch(error => {
+        this.logger.error('Error dispatching held presses:', error);
+      });
+    });
+  }
 
   /**
    * Enumerate all available HID devices
    */
   enumerateDevices(): HIDDevice[] {
     try {
-      const devices = HID.devices();
-      return devices.map(device => ({
-        vendorId: device.vendorId,
-        productId: device.productId,
-        path: device.path || '',
-        serialNumber: device.serialNumber || '',
-        manufacturer: device.manufacturer || '',
-        product: device.product || '',
-        release: device.release,
-        interface: device.interface,
-        usagePage: device.usagePage || 0,
-        usage: device.usage || 0,
-      }));
+      return this.transport.enumerate();
     } catch (error) {
       this.logger.error('Failed to enumerate HID devices:', error);
       return [];
@@ -41,12 +121,49 @@ export class HIDDeviceManager {
   }
 
   /**
-   * Find and connect to the configured device
+   * Connect to the device and keep it connected: if it is missing or goes
+   * away, keep looking for it until stop() is called. Returns false only
+   * when the device is missing and reconnecting is disabled.
+   */
+  async start(): Promise<boolean> {
+    this.watching = true;
+
+    if (await this.connect()) {
+      return true;
+    }
+
+    if (this.config.reconnect?.enabled === false) {
+      this.watching = false;
+      return false;
+    }
+
+    this.logger.info('Waiting for the device to be plugged in...');
+    this.scheduleReconnect();
+    return true;
+  }
+
+  /**
+   * Stop looking for the device and disconnect from it
+   */
+  stop(): void {
+    this.watching = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.disconnect();
+  }
+
+  /**
+   * Find and connect to the configured device. Retries pass `quiet` so a
+   * missing device is not reported on every attempt.
    */
-  async connect(): Promise<boolean> {
+  async connect(quiet = false): Promise<boolean> {
     try {
       const devices = this.enumerateDevices();
-      this.logger.info(`Found ${devices.length} HID devices`);
+      this.logger[quiet ? 'debug' : 'info'](`Found ${devices.length} HID devices`);
 
       // Log all devices for debugging
       devices.forEach((device, index) => {
@@ -58,11 +175,17 @@ export class HIDDeviceManager {
         });
       });
 
-      // Find all matching devices
+      // Find all matching devices not already opened by another manager
+      const { vendorId, productId, serialNumber, path, usagePage, interface: iface } = this.config.device;
       const targetDevices = devices.filter(
         device =>
-          device.vendorId === this.config.device.vendorId &&
-          device.productId === this.config.device.productId
+          device.vendorId === vendorId &&
+          device.productId === productId &&
+          (!serialNumber || device.serialNumber === serialNumber) &&
+          (!path || device.path === path) &&
+          (usagePage === undefined || device.usagePage === usagePage) &&
+          (iface === undefined || device.interface === iface) &&
+          !(device.path && this.claimedPaths.has(device.path))
       );
 
       // Prefer devices with valid interfaces (not N/A)
@@ -75,8 +198,13 @@ export class HIDDeviceManager {
       });
 
       if (targetDevices.length === 0) {
+        if (quiet) {
+          this.logger.debug('Target device still not found');
+          return false;
+        }
+
         this.logger.error(
-          `Target device not found. Looking for vendorId: 0x${this.config.device.vendorId.toString(16).toUpperCase()}, productId: 0x${this.config.device.productId.toString(16).toUpperCase()}`
+          `Target device ${this.deviceId} not found. Looking for vendorId: 0x${vendorId.toString(16).toUpperCase()}, productId: 0x${productId.toString(16).toUpperCase()}${serialNumber ? `, serial: ${serialNumber}` : ''}${path ? `, path: ${path}` : ''}`
         );
         this.logger.info('Available devices:');
         devices.forEach(device => {
@@ -95,10 +223,12 @@ export class HIDDeviceManager {
           this.logger.info(`Attempting to connect to device: ${targetDevice.product || 'Unknown'} at path: ${targetDevice.path}`);
           
           // Connect to the device
-          this.device = new HID.HID(targetDevice.path!);
+          this.device = this.transport.open(targetDevice);
+          this.deviceInfo = targetDevice;
           this.isConnected = true;
+          if (targetDevice.path) this.claimedPaths.add(targetDevice.path);
           
-          this.logger.info(`Successfully connected to device at path: ${targetDevice.path}`);
+          this.logger.info(`Successfully connected ${this.deviceId} at path: ${targetDevice.path}`);
           break;
         } catch (error) {
           this.logger.warn(`Failed to connect to device at path: ${targetDevice.path}`, error);
@@ -111,10 +241,15 @@ export class HIDDeviceManager {
         return false;
       }
 
+      this.loadReportDescriptor();
+
       // Set up event handlers
       this.setupEventHandlers();
 
       this.logger.info('Successfully connected to HID device');
+      this.reconnectAttempts = 0;
+      this.triggerLifecycle('connected', this.deviceInfo);
+      this.notify(observer => observer.connectionChanged?.(this, true));
       return true;
     } catch (error) {
       this.logger.error('Failed to connect to HID device:', error);
@@ -122,21 +257,45 @@ export class HIDDeviceManager {
     }
   }
 
+  /**
+   * Hand the device's report descriptor to parsers that build their layout
+   * from it
+   */
+  private loadReportDescriptor(): void {
+    if (!this.parser.setReportDescriptor || !this.device?.getReportDescriptor) return;
+
+    try {
+      const descriptor = this.device.getReportDescriptor();
+      if (descriptor) {
+        this.parser.setReportDescriptor(descriptor);
+      } else {
+        this.logger.warn('Report descriptor not available on this platform');
+      }
+    } catch (error) {
+      this.logger.warn('Failed to read the report descriptor:', error);
+    }
+  }
+
   /**
    * Disconnect from the device
    */
   disconnect(): void {
     if (this.device) {
-      this.device.close();
+      this.device.removeAllListeners();
+      try {
+        this.device.close();
+      } catch (error) {
+        this.logger.debug('Error closing HID device:', error);
+      }
       this.device = null;
+      if (this.deviceInfo?.path) this.claimedPaths.delete(this.deviceInfo.path);
+      this.deviceInfo = null;
       this.isConnected = false;
-      this.logger.info('Disconnected from HID device');
+      this.logger.info(`Disconnected from HID device ${this.deviceId}`);
+      this.notify(observer => observer.connectionChanged?.(this, false));
     }
 
-    if (this.debounceTimer) {
-      clearTimeout(this.debounceTimer);
-      this.debounceTimer = null;
-    }
+    this.resetState();
   }
 
   /**
@@ -146,6 +305,99 @@ export class HIDDeviceManager {
     return this.isConnected && this.device !== null;
   }
 
+  getName(): string {
+    return this.config.device.name ?? this.deviceId;
+  }
+
+  getDeviceInfo(): HIDDevice | null {
+    return this.deviceInfo;
+  }
+
+  /**
+   * Every control's position as of the last report, with axes normalized
+   */
+  getControlStates(): Record<string, ControlState> {
+    return this.axisProcessor.normalizeStates(this.parser.getControlStates?.() ?? {});
+  }
+
+  /**
+   * The controls the parser knows about, empty for parsers that only learn
+   * them from reports
+   */
+  getControls(): ControlInfo[] {
+    return this.parser.getControls?.() ?? [];
+  }
+
+  /**
+   * Feed a press or position change through layers, triggers and bindings
+   * as if the device had reported it, without debouncing. The positions
+   * the parser reports are not changed. Returns the events queued.
+   */
+  inject(input: VirtualInput): ControlEvent[] {
+    const { controlId, action = 'tap' } = input;
+    const kind = this.getControls().find(control => control.id === controlId)?.kind ?? 'momentary';
+    const timestamp = Date.now();
+    let controlEvents: ControlEvent[];
+
+    if (action === 'change') {
+      if (input.state === undefined) {
+        throw new Error('a change needs a "state"');
+      }
+      const previousState = this.getControlStates()[controlId] ?? null;
+      const delta = input.delta ??
+        (kind === 'encoder' && typeof input.state === 'number' && typeof previousState === 'number'
+          ? input.state - previousState
+          : undefined);
+
+      controlEvents = [{
+        ...createControlEvent(controlId, kind, previousState, input.state, timestamp, this.deviceId),
+        ...(delta !== undefined && { delta }),
+      }];
+    } else {
+      if (kind !== 'momentary' && kind !== 'toggle') {
+        throw new Error(`${controlId} is a ${kind} control: use a change with a "state"`);
+      }
+      const states = action === 'tap' ? [true, false] : [action === 'press'];
+      controlEvents = states.map(state =>
+        createControlEvent(controlId, kind, !state, state, timestamp, this.deviceId)
+      );
+    }
+
+    controlEvents = controlEvents.map(controlEvent => ({ ...controlEvent, virtual: true }));
+    const parsedEvent: ParsedEvent = {
+      timestamp,
+      buttonStates: [],
+      controlEvents,
+      rawData: Buffer.alloc(0),
+      deviceId: this.deviceId,
+    };
+
+    this.logger.info(`Virtual ${action} on ${controlId}`);
+    for (const controlEvent of controlEvents) {
+      this.processing = this.processing.then(() => this.processControlEvent(controlEvent, parsedEvent));
+    }
+
+    return controlEvents;
+  }
+
+  /**
+   * Mirror this device to an output. Returns a function that removes it.
+   */
+  addObserver(observer: DeviceObserver): () => void {
+    this.observers.add(observer);
+    return () => this.observers.delete(observer);
+  }
+
+  private notify(call: (observer: DeviceObserver) => void): void {
+    for (const observer of this.observers) {
+      try {
+        call(observer);
+      } catch (error) {
+        this.logger.error('Device observer failed:', error);
+      }
+    }
+  }
+
   /**
    * Set up event handlers for the HID device
    */
@@ -158,15 +410,110 @@ export class HIDDeviceManager {
 
     this.device.on('error', (error: Error) => {
       this.logger.error('HID device error:', error);
-      this.isConnected = false;
+      this.handleConnectionLost();
     });
 
     this.device.on('close', () => {
       this.logger.warn('HID device connection closed');
-      this.isConnected = false;
+      this.handleConnectionLost();
     });
   }
 
+  /**
+   * Drop everything tied to the old connection and, unless stopped, start
+   * looking for the device again
+   */
+  private handleConnectionLost(): void {
+    if (!this.device) return;
+
+    const lostDevice = this.deviceInfo;
+
+    this.device.removeAllListeners();
+    try {
+      this.device.close();
+    } catch (error) {
+      this.logger.debug('Error closing lost HID device:', error);
+    }
+
+    this.device = null;
+    if (lostDevice?.path) this.claimedPaths.delete(lostDevice.path);
+    this.deviceInfo = null;
+    this.isConnected = false;
+    this.resetState();
+
+    this.logger.warn(`HID device ${this.deviceId} disconnected`);
+    this.triggerLifecycle('disconnected', lostDevice);
+    this.notify(observer => observer.connectionChanged?.(this, false));
+
+    if (this.watching && this.config.reconnect?.enabled !== false) {
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Look for the device again after a delay that grows with every miss
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return;
+
+    const { initialDelay = 500, maxDelay = 10000, factor = 2 } = this.config.reconnect ?? {};
+    const delay = Math.min(maxDelay, initialDelay * Math.pow(factor, this.reconnectAttempts));
+    this.reconnectAttempts++;
+
+    this.logger.debug(`Looking for the device again in ${delay}ms`);
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (!this.watching) return;
+
+      if (!(await this.connect(true))) {
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  /**
+   * Forget per-connection input state: the parser baseline, axis values,
+   * pending debounce windows, held gestures and chords, and the layer selectors
+   */
+  private resetState(): void {
+    this.debouncer.reset();
+    this.axisProcessor.reset();
+    this.gestureRecognizer.reset();
+    this.triggerMatcher.reset();
+    this.parser.reset?.();
+    this.layerManager.reset();
+    this.statesReady = false;
+  }
+
+  /**
+   * Run the action bound to the device appearing or going away
+   */
+  private triggerLifecycle(event: 'connected' | 'disconnected', device: HIDDevice | null): void {
+    const action = event === 'connected' ? this.config.lifecycle?.onConnect : this.config.lifecycle?.onDisconnect;
+    if (!action) return;
+
+    this.logger.info(`Device ${event}: running ${describeAction(action)}`);
+
+    // Queued on one key so a disconnect action never overtakes the connect one
+    this.executor.submit(`${this.deviceId}:device`, async signal => {
+      try {
+        await this.actionRegistry.executeAction(action, {
+          buttonName: this.config.device.name ?? this.deviceId,
+          trigger: event,
+          controlId: 'device',
+          bindingId: `device.${event}`,
+          deviceId: this.deviceId,
+          devicePath: device?.path,
+          timestamp: Date.now(),
+          signal,
+        });
+      } catch (error) {
+        this.logger.error(`Failed to execute ${event} action:`, error);
+      }
+    }, 'queue');
+  }
+
   /**
    * Handle incoming data from the HID device
    */
@@ -175,24 +522,50 @@ export class HIDDeviceManager {
       // Always log raw data for debugging PXN CB1
       this.logger.debug('Raw HID data:', data.toString('hex'));
 
+      if (this.recorder && this.deviceInfo) {
+        this.recorder.record(data, this.deviceInfo);
+      }
+
       // Parse the data
-      const parsedEvent = this.parser.parse(data);
+      // Events carry this manager's device id rather than the parser's
+      // generic one, so bindings and actions can tell boxes apart. Axes are
+      // normalized and their thresholds fired before anything else sees them.
+      const parsed = this.parser.parse(data);
+      const parsedEvent: ParsedEvent = {
+        ...parsed,
+        deviceId: this.deviceId,
+        controlEvents: this.axisProcessor.process(
+          parsed.controlEvents.map(controlEvent => ({ ...controlEvent, deviceId: this.deviceId }))
+        ),
+      };
+
+      // Pick up the initial layer selector positions from the first packet
+      const controlStates = this.parser.getControlStates?.() ?? {};
+      if (!this.layerManager.isSeeded() && Object.keys(controlStates).length > 0) {
+        this.layerManager.seed(controlStates);
+        this.logger.info(`Active layer: ${this.layerManager.getActiveLayer()?.name ?? 'base'}`);
+      }
+
+      if (!this.statesReady && Object.keys(controlStates).length > 0) {
+        this.statesReady = true;
+        this.notify(observer => observer.statesReady?.(this));
+      }
       
       // Log parsed event for debugging
       this.logger.debug('Parsed event:', {
         timestamp: parsedEvent.timestamp,
-        buttonStates: parsedEvent.buttonStates,
+        controlEvents: parsedEvent.controlEvents.length,
         deviceId: parsedEvent.deviceId
       });
-      
-      // Apply debouncing
-      if (this.debounceTimer) {
-        clearTimeout(this.debounceTimer);
+
+      if (parsedEvent.controlEvents.length === 0) {
+        return;
       }
 
-      this.debounceTimer = setTimeout(() => {
-        this.processButtonStates(parsedEvent);
-      }, this.config.polling.debounce);
+      // Each control is debounced on its own
+      for (const controlEvent of parsedEvent.controlEvents) {
+        this.debouncer.push(controlEvent, parsedEvent);
+      }
 
     } catch (error) {
       this.logger.error('Error processing device data:', error);
@@ -200,58 +573,174 @@ export class HIDDeviceManager {
   }
 
   /**
-   * Process button state changes and trigger actions
+   * Process a debounced control event and trigger its actions
    */
-  private async processButtonStates(event: ParsedEvent): Promise<void> {
-    const currentStates = event.buttonStates;
-    const previousStates = this.lastButtonStates;
+  private async processControlEvent(controlEvent: ControlEvent, event: ParsedEvent): Promise<void> {
+    try {
+      this.logger.debug(
+        `Control ${controlEvent.controlId} (${controlEvent.kind}) ${controlEvent.type}: ${controlEvent.previousState} -> ${controlEvent.state}`
+      );
 
-    this.logger.debug('Processing button states:', {
-      current: currentStates,
-      previous: previousStates
-    });
+      const layerChange = this.layerManager.apply(controlEvent);
+      if (layerChange) {
+        this.triggerLayerChange(layerChange, controlEvent);
+      }
 
-    // Find buttons that were just pressed (transition from false to true)
-    for (let i = 0; i < Math.max(currentStates.length, previousStates.length); i++) {
-      const currentState = currentStates[i] || false;
-      const previousState = previousStates[i] || false;
+      await this.triggerButtonAction(controlEvent, event);
+      this.notify(observer => observer.controlEvent?.(this, controlEvent));
+    } catch (error) {
+      this.logger.error('Error processing control event:', error);
+    }
+  }
+
+  /**
+   * Trigger the actions bound to a control event
+   */
+  private async triggerButtonAction(controlEvent: ControlEvent, event: ParsedEvent): Promise<void> {
+    // Layer selectors only ever use the base bindings
+    const layer = this.layerManager.isSelector(controlEvent.controlId)
+      ? null
+      : this.layerManager.getActiveLayer();
+
+    // Presses and releases go through chord/sequence matching first
+    for (const activation of eventActivations(controlEvent)) {
+      const dispatch = async (): Promise<void> => {
+        const resolved = this.bindingResolver.resolveActivation(activation, layer);
+        if (resolved) {
+          await this.dispatchBinding(resolved, controlEvent, event);
+        } else {
+          this.logger.debug(`No action mapped for ${activation.bindingId} ${activation.trigger}`);
+        }
+      };
 
-      if (currentState && !previousState) {
-        // Button was just pressed
-        this.logger.debug(`Button ${i} state changed: false -> true`);
-        await this.triggerButtonAction(i, event);
+      const decision = this.triggerMatcher.handle(activation, controlEvent.timestamp, dispatch);
+      if (decision === 'pass') {
+        await dispatch();
       }
     }
 
-    // Update last known states
-    this.lastButtonStates = [...currentStates];
+    if (controlEvent.type === 'change') {
+      const resolved = this.bindingResolver.resolveBindings(controlEvent, layer)
+        .find(binding => binding.trigger === 'change');
+      if (resolved) {
+        await this.dispatchBinding(resolved, controlEvent, event);
+      }
+    }
   }
 
   /**
-   * Trigger action for a specific button
+   * Run the direct action of a binding and feed it to gesture detection
    */
-  private async triggerButtonAction(buttonIndex: number, event: ParsedEvent): Promise<void> {
-    const actionMapping = this.config.actions[buttonIndex];
-    
-    if (!actionMapping) {
-      this.logger.debug(`No action mapped for button ${buttonIndex}`);
-      return;
+  private async dispatchBinding(
+    binding: ResolvedBinding,
+    controlEvent: ControlEvent,
+    event: ParsedEvent
+  ): Promise<void> {
+    const context = {
+      bindingId: binding.bindingId,
+      layer: binding.layer,
+      buttonName: binding.binding.name,
+      trigger: binding.trigger,
+      controlId: controlEvent.controlId,
+      kind: controlEvent.kind,
+      previousState: controlEvent.previousState,
+      state: controlEvent.state,
+      value: controlEvent.state,
+      delta: controlEvent.delta,
+      raw: controlEvent.raw,
+      timestamp: controlEvent.timestamp,
+      rawData: event.rawData,
+      deviceId: event.deviceId,
+    };
+
+    if (binding.trigger !== 'change' && hasGestures(binding.binding)) {
+      this.gestureRecognizer.handle(binding, context);
     }
 
-    try {
-      this.logger.info(`Button ${buttonIndex} (${actionMapping.name}) pressed`);
-      
-      const context = {
-        buttonIndex,
-        buttonName: actionMapping.name,
-        timestamp: event.timestamp,
-        rawData: event.rawData,
-        deviceId: event.deviceId,
-      };
-
-      await this.actionRegistry.executeAction(actionMapping.action, context);
-    } catch (error) {
-      this.logger.error(`Failed to execute action for button ${buttonIndex}:`, error);
+    const action = actionForTrigger(binding.binding, binding.trigger);
+    if (action) {
+      this.runBindingAction(binding, binding.trigger, action, context);
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Run the action of a completed chord or sequence
+   */
+  private triggerCombination(trigger: FiredTrigger): void {
+    const resolved: ResolvedBinding = {
+      bindingId: `${trigger.kind}:${trigger.name}`,
+      binding: { name: trigger.name, action: trigger.action },
+      trigger: 'press',
+    };
+
+    this.runBindingAction(resolved, trigger.kind, trigger.action, {
+      bindingId: resolved.bindingId,
+      buttonName: trigger.name,
+      controls: trigger.controls,
+      timestamp: Date.now(),
+      deviceId: this.deviceId,
+    });
+  }
+
+  /**
+   * Hand one action for a binding to the executor, which applies the
+   * binding's concurrency policy. Logs which trigger or gesture fired it.
+   */
+  private runBindingAction(
+    resolved: ResolvedBinding,
+    trigger: string,
+    action: ActionDefinition,
+    context: Record<string, unknown>
+  ): void {
+    const { bindingId, binding, layer } = resolved;
+
+    this.executor.submit(`${this.deviceId}:${bindingId}`, async signal => {
+      try {
+        this.logger.info(`${binding.name} (${bindingId}) ${trigger}${layer ? ` [${layer}]` : ''}`);
+        await this.actionRegistry.executeAction(action, { ...context, trigger, signal });
+      } catch (error) {
+        this.logger.error(`Failed to execute ${trigger} action for ${bindingId}:`, error);
+      }
+    }, binding.concurrency);
+  }
+
+  /**
+   * Run the exit action of the previous layer and the enter action of the new one
+   */
+  private triggerLayerChange(change: LayerChange, controlEvent: ControlEvent): void {
+    const previousName = change.previous?.name ?? 'base';
+    const currentName = change.current?.name ?? 'base';
+
+    this.logger.info(`Layer changed: ${previousName} -> ${currentName}`);
+
+    const steps: Array<[ActionDefinition | undefined, string]> = [
+      [change.previous?.onExit, 'exit'],
+      [change.current?.onEnter, 'enter'],
+    ];
+
+    if (!steps.some(([action]) => action)) return;
+
+    // Exit and enter actions of successive changes run in order
+    this.executor.submit(`${this.deviceId}:layer`, async signal => {
+      for (const [action, trigger] of steps) {
+        if (!action) continue;
+
+        try {
+          await this.actionRegistry.executeAction(action, {
+            buttonName: `Layer ${trigger === 'exit' ? previousName : currentName}`,
+            trigger,
+            layer: currentName,
+            previousLayer: previousName,
+            controlId: controlEvent.controlId,
+            timestamp: controlEvent.timestamp,
+            deviceId: controlEvent.deviceId,
+            signal,
+          });
+        } catch (error) {
+          this.logger.error(`Failed to execute layer ${trigger} action:`, error);
+        }
+      }
+    }, 'queue');
+  }
+
+}
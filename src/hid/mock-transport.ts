@@ -0,0 +1,150 @@
+import { EventEmitter } from 'node:events';
+import type { HIDDevice } from '../types/index.js';
+import type { HIDConnection, HIDTransport } from './transport.js';
+
+/**
+ * An open in-memory device. Input reports are pushed in with `feed`;
+ * output and feature reports sent by the host are recorded for inspection.
+ */
+export class MockHIDConnection extends EventEmitter implements HIDConnection {
+  readonly outputReports: Buffer[] = [];
+  readonly sentFeatureReports: Buffer[] = [];
+  private featureReports = new Map<number, Buffer>();
+  private closed = false;
+
+  constructor(
+    readonly device: HIDDevice,
+    private reportDescriptor: Buffer | null = null
+  ) {
+    super();
+  }
+
+  /**
+   * Deliver an input report as if the device had sent it
+   */
+  feed(data: Buffer | number[]): void {
+    if (this.closed) {
+      throw new Error('Cannot feed a closed mock device');
+    }
+    this.emit('data', Buffer.from(data));
+  }
+
+  /**
+   * Fail the way node-hid does when the device is unplugged mid-read
+   */
+  fail(error: Error = new Error('could not read from HID device')): void {
+    this.emit('error', error);
+  }
+
+  /**
+   * Answer `getFeatureReport` for a report ID
+   */
+  setFeatureReport(reportId: number, data: Buffer | number[]): void {
+    this.featureReports.set(reportId, Buffer.from(data));
+  }
+
+  write(data: number[] | Buffer): number {
+    this.assertOpen();
+    this.outputReports.push(Buffer.from(data));
+    return data.length;
+  }
+
+  sendFeatureReport(data: number[] | Buffer): number {
+    this.assertOpen();
+    this.sentFeatureReports.push(Buffer.from(data));
+    return data.length;
+  }
+
+  getFeatureReport(reportId: number, length: number): Buffer {
+    this.assertOpen();
+    const report = this.featureReports.get(reportId);
+    if (!report) {
+      throw new Error(`No feature report 0x${reportId.toString(16)} on mock device`);
+    }
+    return report.subarray(0, length);
+  }
+
+  getReportDescriptor(): Buffer | null {
+    return this.reportDescriptor;
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.emit('close');
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new Error('Mock device is closed');
+    }
+  }
+}
+
+/**
+ * In-memory transport for running the whole pipeline without hardware.
+ * Devices can be plugged and unplugged at any time.
+ */
+export class MockHIDTransport implements HIDTransport {
+  name = 'mock';
+  private devices: HIDDevice[] = [];
+  private nextId = 0;
+  private connections = new Map<string, MockHIDConnection>();
+  private reportDescriptors = new Map<string, Buffer>();
+
+  constructor(devices: HIDDevice[] = []) {
+    devices.forEach(device => this.plug(device));
+  }
+
+  enumerate(): HIDDevice[] {
+    return [...this.devices];
+  }
+
+  open(device: HIDDevice): HIDConnection {
+    const known = this.devices.find(candidate => candidate.path === device.path);
+    if (!known?.path) {
+      throw new Error(`Mock device not found: ${device.path}`);
+    }
+
+    const connection = new MockHIDConnection(known, this.reportDescriptors.get(known.path) ?? null);
+    this.connections.set(known.path, connection);
+    return connection;
+  }
+
+  plug(device: HIDDevice): HIDDevice {
+    const plugged = { path: `mock-${this.nextId++}`, ...device };
+    this.devices.push(plugged);
+    return plugged;
+  }
+
+  /**
+   * Set the report descriptor that connections opened on a path report
+   */
+  setReportDescriptor(path: string, descriptor: Buffer | number[]): void {
+    this.reportDescriptors.set(path, Buffer.from(descriptor));
+  }
+
+  /**
+   * Remove a device, failing its open connection the way node-hid would
+   */
+  unplug(path: string): void {
+    this.devices = this.devices.filter(device => device.path !== path);
+
+    const connection = this.connections.get(path);
+    if (connection && !connection.isClosed()) {
+      connection.fail();
+    }
+    this.connections.delete(path);
+  }
+
+  /**
+   * The most recent connection opened on a path
+   */
+  getConnection(path: string): MockHIDConnection | undefined {
+    return this.connections.get(path);
+  }
+}
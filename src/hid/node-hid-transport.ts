@@ -0,0 +1,86 @@
+import { EventEmitter } from 'node:events';
+import { readFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import HID from 'node-hid';
+import type { HIDDevice } from '../types/index.js';
+import type { HIDConnection, HIDTransport } from './transport.js';
+
+class NodeHIDConnection extends EventEmitter implements HIDConnection {
+  constructor(
+    private device: HID.HID,
+    private path: string
+  ) {
+    super();
+    device.on('data', (data: Buffer) => this.emit('data', data));
+    device.on('error', (error: Error) => this.emit('error', error));
+    device.on('close', () => this.emit('close'));
+  }
+
+  write(data: number[] | Buffer): number {
+    return this.device.write(data);
+  }
+
+  sendFeatureReport(data: number[] | Buffer): number {
+    return this.device.sendFeatureReport(data);
+  }
+
+  getFeatureReport(reportId: number, length: number): Buffer {
+    return Buffer.from(this.device.getFeatureReport(reportId, length));
+  }
+
+  /**
+   * node-hid 3 reads the descriptor itself; older versions only expose it
+   * through sysfs on Linux hidraw
+   */
+  getReportDescriptor(): Buffer | null {
+    const device = this.device as HID.HID & { getReportDescriptor?: () => number[] | Buffer };
+    if (device.getReportDescriptor) {
+      return Buffer.from(device.getReportDescriptor());
+    }
+
+    if (!this.path.startsWith('/dev/hidraw')) {
+      return null;
+    }
+
+    try {
+      return readFileSync(`/sys/class/hidraw/${basename(this.path)}/device/report_descriptor`);
+    } catch {
+      return null;
+    }
+  }
+
+  close(): void {
+    this.device.removeAllListeners();
+    this.device.close();
+  }
+}
+
+/**
+ * Real USB devices through node-hid
+ */
+export class NodeHIDTransport implements HIDTransport {
+  name = 'node-hid';
+
+  enumerate(): HIDDevice[] {
+    return HID.devices().map(device => ({
+      vendorId: device.vendorId,
+      productId: device.productId,
+      path: device.path || '',
+      serialNumber: device.serialNumber || '',
+      manufacturer: device.manufacturer || '',
+      product: device.product || '',
+      release: device.release,
+      interface: device.interface,
+      usagePage: device.usagePage || 0,
+      usage: device.usage || 0,
+    }));
+  }
+
+  open(device: HIDDevice): HIDConnection {
+    if (!device.path) {
+      throw new Error(`Device 0x${device.vendorId.toString(16)}:0x${device.productId.toString(16)} has no path`);
+    }
+
+    return new NodeHIDConnection(new HID.HID(device.path), device.path);
+  }
+}
@@ -0,0 +1,170 @@
+import { hasGestures } from '../bindings/index.js';
+import { DEFAULT_GESTURES } from '../bindings/gestures.js';
+import { DEFAULT_CHORD_WINDOW, DEFAULT_SEQUENCE_TIMEOUT } from '../bindings/triggers.js';
+import type { ActionMapping, Config, HIDDevice } from '../types/index.js';
+import type { CaptureRecord } from './capture.js';
+import { MockHIDConnection } from './mock-transport.js';
+import type { HIDConnection, HIDTransport } from './transport.js';
+
+/**
+ * Replay speed: 1 is the original timing, 4 is four times as fast and
+ * 'instant' skips the idle time between reports
+ */
+export type ReplaySpeed = number | 'instant';
+
+// Kept of each gap on top of the longest timing window, so a window that
+// runs out between two reports still runs out on replay
+const INSTANT_GAP_MARGIN = 100;
+
+// Past the default chord, gesture and sequence windows
+const DEFAULT_INSTANT_GAP =
+  Math.max(DEFAULT_CHORD_WINDOW, DEFAULT_SEQUENCE_TIMEOUT, ...Object.values(DEFAULT_GESTURES)) + INSTANT_GAP_MARGIN;
+
+/**
+ * The gap an instant replay keeps between reports for these device configs:
+ * just past the longest debounce, chord, sequence or gesture window any of
+ * them uses, so shortening longer gaps changes nothing they can tell apart
+ */
+export function instantGapFor(configs: Config[]): number {
+  const windows: number[] = [];
+
+  const addBindings = (mapping: ActionMapping): void => {
+    for (const binding of Object.values(mapping)) {
+      if (hasGestures(binding)) {
+        windows.push(...Object.values({ ...DEFAULT_GESTURES, ...binding.gestures }));
+      }
+    }
+  };
+
+  for (const config of configs) {
+    const { debounce, debounceByKind, debounceByControl } = config.polling;
+    windows.push(debounce);
+    for (const rule of [...Object.values(debounceByKind ?? {}), ...Object.values(debounceByControl ?? {})]) {
+      if (rule.ms !== undefined) windows.push(rule.ms);
+    }
+
+    if (config.triggers?.chords?.length) {
+      windows.push(config.triggers.chordWindow ?? DEFAULT_CHORD_WINDOW);
+    }
+    for (const sequence of config.triggers?.sequences ?? []) {
+      windows.push(sequence.timeout ?? DEFAULT_SEQUENCE_TIMEOUT);
+    }
+
+    addBindings(config.actions);
+    for (const layer of config.layers?.layers ?? []) {
+      addBindings(layer.actions);
+    }
+  }
+
+  return Math.max(0, ...windows) + INSTANT_GAP_MARGIN;
+}
+
+/**
+ * Plays a capture back through the normal pipeline. The captured devices
+ * are enumerated as if they were plugged in, and opening one starts feeding
+ * its reports in the order and spacing they were recorded.
+ */
+export class ReplayTransport implements HIDTransport {
+  name = 'replay';
+  private devices: HIDDevice[] = [];
+  private playing = new Set<Promise<void>>();
+  private timers = new Map<ReturnType<typeof setTimeout>, () => void>();
+  private stopped = false;
+
+  /**
+   * An instant replay keeps each recorded gap up to `instantGap` ms and
+   * shortens longer ones to it: debouncing, chords and gestures still see
+   * presses as they were made, as long as their windows are shorter.
+   * See `instantGapFor` for the gap that fits a config.
+   */
+  constructor(
+    private records: CaptureRecord[],
+    private speed: ReplaySpeed = 1,
+    private instantGap: number = DEFAULT_INSTANT_GAP
+  ) {
+    if (typeof speed === 'number' && !(speed > 0)) {
+      throw new Error(`Replay speed must be above 0, got ${speed}`);
+    }
+    if (!(instantGap >= 0)) {
+      throw new Error(`Instant replay gap must be 0 or more, got ${instantGap}`);
+    }
+
+    for (const record of records) {
+      if (!this.devices.some(device => device.path === record.path)) {
+        this.devices.push({
+          vendorId: record.vendorId,
+          productId: record.productId,
+          path: record.path,
+          serialNumber: record.serialNumber,
+          product: 'Captured device',
+          release: 0,
+          interface: 0,
+        });
+      }
+    }
+  }
+
+  enumerate(): HIDDevice[] {
+    return [...this.devices];
+  }
+
+  open(device: HIDDevice): HIDConnection {
+    if (!this.devices.some(candidate => candidate.path === device.path)) {
+      throw new Error(`Device not in capture: ${device.path}`);
+    }
+
+    const connection = new MockHIDConnection(device);
+    const records = this.records.filter(record => record.path === device.path);
+
+    const playback = this.play(connection, records);
+    this.playing.add(playback);
+    playback.finally(() => this.playing.delete(playback));
+
+    return connection;
+  }
+
+  /**
+   * Resolves once every opened device has played all of its reports
+   */
+  async finished(): Promise<void> {
+    await Promise.all(this.playing);
+  }
+
+  /**
+   * Stop feeding reports; pending playbacks finish straight away
+   */
+  stop(): void {
+    this.stopped = true;
+    this.timers.forEach((resolve, timer) => {
+      clearTimeout(timer);
+      resolve();
+    });
+    this.timers.clear();
+  }
+
+  private async play(connection: MockHIDConnection, records: CaptureRecord[]): Promise<void> {
+    // Let the caller attach its listeners before the first report
+    await this.wait(0);
+
+    let previousOffset = records[0]?.offset ?? 0;
+
+    for (const record of records) {
+      const gap = record.offset - previousOffset;
+      await this.wait(this.speed === 'instant' ? Math.min(gap, this.instantGap) : gap / this.speed);
+      previousOffset = record.offset;
+
+      if (this.stopped || connection.isClosed()) return;
+      connection.feed(Buffer.from(record.data, 'hex'));
+    }
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        resolve();
+      }, ms);
+      this.timers.set(timer, resolve);
+    });
+  }
+}
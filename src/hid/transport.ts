@@ -0,0 +1,30 @@
+import type { HIDDevice } from '../types/index.js';
+
+/**
+ * An open HID device. Emits `data` for every input report, `error` when
+ * reading fails (node-hid reports an unplugged device this way) and `close`.
+ */
+export interface HIDConnection {
+  on(event: 'data', listener: (data: Buffer) => void): void;
+  on(event: 'error', listener: (error: Error) => void): void;
+  on(event: 'close', listener: () => void): void;
+  removeAllListeners(): void;
+
+  /** Send an output report; the first byte is the report ID */
+  write(data: number[] | Buffer): number;
+  /** Send a feature report; the first byte is the report ID */
+  sendFeatureReport(data: number[] | Buffer): number;
+  getFeatureReport(reportId: number, length: number): Buffer;
+  /** The device's HID report descriptor, or null if the platform can't read it */
+  getReportDescriptor?(): Buffer | null;
+  close(): void;
+}
+
+/**
+ * The USB layer underneath HIDDeviceManager: finds devices and opens them
+ */
+export interface HIDTransport {
+  name: string;
+  enumerate(): HIDDevice[];
+  open(device: HIDDevice): HIDConnection;
+}
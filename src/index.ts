@@ -1,58 +1,166 @@
 import { ConsoleLogger } from './utils/logger.js';
 import { ConfigManager } from './config/index.js';
 import { ParserRegistry } from './parsers/index.js';
-import { ActionRegistry } from './actions/index.js';
+import { ActionRegistry, collectActions } from './actions/index.js';
+import { ActionExecutor } from './actions/executor.js';
+import { MqttActionRunner } from './actions/mqtt.js';
+import { OscActionRunner } from './actions/osc.js';
+import { MqttBridge } from './mqtt/index.js';
+import { EventServer } from './server/index.js';
+import { OscClient } from './osc/index.js';
+import { PluginManager } from './plugins/index.js';
 import { HIDDeviceManager } from './hid/device-manager.js';
+import { NodeHIDTransport } from './hid/node-hid-transport.js';
+import { CaptureRecorder, readCapture } from './hid/capture.js';
+import { instantGapFor, ReplayTransport } from './hid/replay-transport.js';
+import type { HIDTransport } from './hid/transport.js';
+import { mergeAxisConfigs } from './hid/axes.js';
+import { loadProfiles } from './profiles/index.js';
+import type { Config, MonitorStatus } from './types/index.js';
+
+// Time left after a replay ends for debounce windows, gestures and actions
+const REPLAY_SETTLE_MS = 1000;
 
 class HIDMonitor {
   private logger: ConsoleLogger;
   private configManager: ConfigManager;
   private parserRegistry: ParserRegistry;
   private actionRegistry: ActionRegistry;
-  private deviceManager: HIDDeviceManager;
+  private executor: ActionExecutor;
+  private plugins: PluginManager;
+  private config: Config;
+  private deviceManagers: HIDDeviceManager[] = [];
+  private mqtt: MqttBridge | null = null;
+  private server: EventServer | null = null;
+  private osc: OscClient | null = null;
+  private recorder: CaptureRecorder | null = null;
+  private replay: ReplayTransport | null = null;
   private isRunning = false;
 
-  constructor() {
+  constructor(configPath?: string) {
     // Initialize logger first
     this.logger = new ConsoleLogger('info');
     
     // Load configuration
-    this.configManager = new ConfigManager();
+    this.configManager = new ConfigManager(configPath);
     const config = this.configManager.getConfig();
+    this.config = config;
     
     // Set log level from config
     this.logger.setLevel(config.logging.level);
+    this.logger.info(this.configManager.configPath ? `Loaded config from ${this.configManager.configPath}` : 'No config file, using defaults');
     
     // Initialize components
-    this.parserRegistry = new ParserRegistry();
-    this.actionRegistry = new ActionRegistry(this.logger);
-    
-    // Initialize device manager
-    const deviceInfo = {
-      vendorId: config.device.vendorId,
-      productId: config.device.productId,
-      release: 0,
-      interface: 0,
-    };
-    
-    // Force use of the config-based parser for PXN CB1
-    let parser = this.parserRegistry.getParserForDevice(deviceInfo);
-    
-    // If no specific parser found, look for ControlConfigParser
-    if (!parser) {
-      const allParsers = this.parserRegistry.getAllParsers();
-      parser = allParsers.find(p => p.name === 'ControlConfigParser') || allParsers[0];
+    this.parserRegistry = new ParserRegistry(loadProfiles(config.profilesDir));
+    this.logger.info(`Loaded ${this.parserRegistry.getProfiles().length} device profiles`);
+    this.actionRegistry = new ActionRegistry(this.logger, config.macros);
+    this.executor = new ActionExecutor(this.logger, config.execution);
+
+    if (config.mqtt) {
+      this.mqtt = new MqttBridge(config.mqtt, this.logger, this.actionRegistry, this.executor);
+      this.actionRegistry.register(new MqttActionRunner(this.logger, this.mqtt));
     }
-    
-    this.logger.info(`Selected parser: ${parser.name}`);
-    this.logger.info(`Looking for device: vendorId=0x${deviceInfo.vendorId.toString(16)}, productId=0x${deviceInfo.productId.toString(16)}`);
-    
-    this.deviceManager = new HIDDeviceManager(
-      config,
-      this.logger,
-      parser,
-      this.actionRegistry
+
+    if (config.osc) {
+      this.osc = new OscClient(config.osc, this.logger);
+      this.actionRegistry.register(new OscActionRunner(this.logger, this.osc));
+    }
+
+    this.plugins = new PluginManager(config.plugins ?? {}, this.logger, this.actionRegistry, this.parserRegistry);
+  }
+
+  /**
+   * Create the device managers, once plugins have added their runners and
+   * parsers, and check every configured action
+   */
+  private setupDevices(): void {
+    const config = this.config;
+
+    // One device manager per configured device, each with its own parser
+    // and bindings, sharing the transport
+    const claimedPaths = new Set<string>();
+    const invalidActions = new Set<string>();
+
+    // Devices pinned by serial number or path go first, so a device matched
+    // by VID/PID alone doesn't take a box meant for one of them
+    const devices = this.configManager.getDevices().sort(
+      (a, b) => Number(Boolean(b.serialNumber || b.path)) - Number(Boolean(a.serialNumber || a.path))
+    );
+
+    const setups = devices.map(device => {
+      const profile = this.parserRegistry.selectProfile(device, device.profile);
+      const parserName = device.parser ?? profile?.parser ?? 'ButtonParser';
+      const parser = this.parserRegistry.createParser(parserName, {
+        profile,
+        logger: this.logger,
+        ...(device.controls && { controls: device.controls }),
+      });
+
+      this.logger.info(`Device ${device.id}: profile ${profile?.name ?? 'none'}, parser ${parser.name}, looking for vendorId=0x${device.vendorId.toString(16)}, productId=0x${device.productId.toString(16)}`);
+
+      // The profile's interface rules pick which HID interface to open, and
+      // its default bindings and axis calibration sit under the configured ones
+      const deviceConfig: Config = {
+        ...config,
+        device: {
+          ...(profile?.match.usagePage !== undefined && { usagePage: profile.match.usagePage }),
+          ...(profile?.match.interface !== undefined && { interface: profile.match.interface }),
+          ...device,
+        },
+        actions: { ...profile?.actions, ...config.actions, ...device.actions },
+        axes: mergeAxisConfigs(profile?.axes, config.axes, device.axes),
+      };
+
+      for (const [where, action] of collectActions(deviceConfig)) {
+        try {
+          this.actionRegistry.validate(action);
+        } catch (error) {
+          invalidActions.add(`${where}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+
+      return { deviceConfig, parser };
+    });
+
+    // Fail at startup rather than on the first press
+    if (invalidActions.size > 0) {
+      throw new Error(`Invalid actions:\n  ${[...invalidActions].join('\n  ')}`);
+    }
+
+    let transport: HIDTransport = new NodeHIDTransport();
+
+    if (config.capture?.replay) {
+      const records = readCapture(config.capture.replay);
+      const speed = config.capture.replaySpeed ?? 1;
+      const instantGap = config.capture.instantGap ?? instantGapFor(setups.map(setup => setup.deviceConfig));
+      this.replay = new ReplayTransport(records, speed, instantGap);
+      transport = this.replay;
+      this.logger.info(`Replaying ${records.length} reports from ${config.capture.replay} (speed: ${speed}${speed === 'instant' ? `, gaps up to ${instantGap} ms` : ''})`);
+    }
+
+    if (config.capture?.record) {
+      this.recorder = new CaptureRecorder(config.capture.record);
+      this.logger.info(`Recording raw reports to ${config.capture.record}`);
+    }
+
+    this.deviceManagers = setups.map(({ deviceConfig, parser }) =>
+      new HIDDeviceManager(deviceConfig, this.logger, parser, this.actionRegistry, {
+        transport,
+        recorder: this.recorder,
+        claimedPaths,
+        executor: this.executor,
+      })
     );
+
+    if (config.server) {
+      this.server = new EventServer(config.server, this.logger, () => this.getStatus());
+    }
+
+    this.deviceManagers.forEach(deviceManager => {
+      this.mqtt?.attach(deviceManager);
+      this.server?.attach(deviceManager);
+      this.osc?.attach(deviceManager);
+    });
   }
 
   async start(): Promise<void> {
@@ -65,10 +173,19 @@ class HIDMonitor {
     this.logger.info('Press Ctrl+C to stop');
 
     try {
-      // Connect to the device
-      const connected = await this.deviceManager.connect();
+      await this.plugins.load();
+      this.setupDevices();
+
+      this.mqtt?.start();
+      await this.server?.start();
+
+      // Connect to the devices, or wait for them to be plugged in
+      const started = [];
+      for (const deviceManager of this.deviceManagers) {
+        started.push(await deviceManager.start());
+      }
       
-      if (!connected) {
+      if (!started.some(Boolean)) {
         this.logger.error('Failed to connect to HID device. Exiting.');
         process.exit(1);
       }
@@ -79,6 +196,13 @@ class HIDMonitor {
       // Set up graceful shutdown
       this.setupGracefulShutdown();
 
+      if (this.replay) {
+        this.replay.finished().then(() => {
+          this.logger.info('Replay finished');
+          setTimeout(() => this.stop().finally(() => process.exit(0)), REPLAY_SETTLE_MS);
+        });
+      }
+
     } catch (error) {
       this.logger.error('Failed to start HID Monitor:', error);
       process.exit(1);
@@ -93,7 +217,23 @@ class HIDMonitor {
     this.logger.info('Stopping HID Monitor...');
     
     try {
-      this.deviceManager.disconnect();
+      this.replay?.stop();
+      await this.server?.stop();
+      this.deviceManagers.forEach(deviceManager => deviceManager.stop());
+
+      // Let running actions finish, cancelling them after the drain timeout
+      await this.executor.drain();
+
+      // After the drain, so running actions can still publish
+      await this.mqtt?.stop();
+      this.osc?.stop();
+      await this.plugins.stop();
+
+      if (this.recorder) {
+        await this.recorder.close();
+        this.logger.info(`Recorded ${this.recorder.getCount()} reports to ${this.recorder.filePath}`);
+      }
+
       this.isRunning = false;
       this.logger.info('HID Monitor stopped');
     } catch (error) {
@@ -123,17 +263,40 @@ class HIDMonitor {
     });
   }
 
-  getStatus(): { isRunning: boolean; isConnected: boolean } {
+  getStatus(): MonitorStatus {
+    const devices = this.deviceManagers.map(deviceManager => ({
+      id: deviceManager.deviceId,
+      isConnected: deviceManager.isDeviceConnected(),
+    }));
+
     return {
       isRunning: this.isRunning,
-      isConnected: this.deviceManager.isDeviceConnected(),
+      isConnected: devices.some(device => device.isConnected),
+      devices,
+      actions: this.executor.getCounts(),
+      mqtt: this.mqtt && { isConnected: this.mqtt.isConnected() },
+      plugins: this.plugins.getLoaded(),
     };
   }
 }
 
+/**
+ * Config file from the command line: `--config <path>`, `--config=<path>`
+ * or a single path argument
+ */
+function configPathFromArgs(args: string[]): string | undefined {
+  const index = args.indexOf('--config');
+  if (index !== -1) return args[index + 1];
+
+  const inline = args.find(arg => arg.startsWith('--config='));
+  if (inline) return inline.slice('--config='.length);
+
+  return args.find(arg => !arg.startsWith('-'));
+}
+
 // Main execution
 async function main(): Promise<void> {
-  const monitor = new HIDMonitor();
+  const monitor = new HIDMonitor(configPathFromArgs(process.argv.slice(2)));
   await monitor.start();
 }
 
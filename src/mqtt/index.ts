@@ -0,0 +1,325 @@
+import { connect, type IClientOptions, type MqttClient } from 'mqtt';
+import type { ControlEvent, ControlInfo, ControlKind, ControlState, Logger, MqttConfig } from '../types/index.js';
+import type { ActionRegistry } from '../actions/index.js';
+import type { ActionExecutor } from '../actions/executor.js';
+import type { DeviceObserver, HIDDeviceManager } from '../hid/device-manager.js';
+
+const DEFAULT_BASE_TOPIC = 'hid-monitor';
+const DEFAULT_DISCOVERY_PREFIX = 'homeassistant';
+
+// Controls that stay where they are put get a retained state topic;
+// buttons and hats only publish events
+const STATEFUL_KINDS: ControlKind[] = ['toggle', 'three-way', 'encoder', 'axis'];
+
+/**
+ * Topic level for an id: MQTT wildcards, separators and spaces can't be in one
+ */
+export function topicLevel(id: string): string {
+  return id.replace(/[#+/\s]/g, '_');
+}
+
+/**
+ * Whether a topic matches a subscription filter with `+` and `#` wildcards
+ */
+export function topicMatches(filter: string, topic: string): boolean {
+  const filterLevels = filter.split('/');
+  const topicLevels = topic.split('/');
+
+  for (let i = 0; i < filterLevels.length; i++) {
+    if (filterLevels[i] === '#') return true;
+    if (i >= topicLevels.length) return false;
+    if (filterLevels[i] !== '+' && filterLevels[i] !== topicLevels[i]) return false;
+  }
+
+  return filterLevels.length === topicLevels.length;
+}
+
+function statePayload(state: ControlState): string | null {
+  if (state === null) return null;
+  if (typeof state === 'boolean') return state ? 'ON' : 'OFF';
+  return String(state);
+}
+
+/**
+ * Mirrors the devices to an MQTT broker and runs actions for messages on
+ * subscribed topics.
+ *
+ * Every control event goes to `<base>/<device>/<control>/event` as JSON
+ * with an `event_type`. Toggles, three-way switches, knobs and axes also
+ * keep their current state retained on `.../state` (`ON`/`OFF` for toggles),
+ * published for every control as soon as a device reports after connecting.
+ * `<base>/status` and `<base>/<device>/status` say `online` or `offline`.
+ *
+ * With `homeAssistant` on, each control is published as a discovery config
+ * so the devices show up as Home Assistant entities.
+ */
+export class MqttBridge implements DeviceObserver {
+  private client: MqttClient | null = null;
+  private devices = new Set<HIDDeviceManager>();
+  private baseTopic: string;
+  private subscriptions: Array<[string, NonNullable<MqttConfig['subscriptions']>[string]]>;
+
+  constructor(
+    private config: MqttConfig,
+    private logger: Logger,
+    private actionRegistry: ActionRegistry,
+    private executor: ActionExecutor
+  ) {
+    this.baseTopic = config.baseTopic ?? DEFAULT_BASE_TOPIC;
+    this.subscriptions = Object.entries(config.subscriptions ?? {});
+  }
+
+  /**
+   * Mirror a device. Call before start() so it is published on connect.
+   */
+  attach(device: HIDDeviceManager): void {
+    this.devices.add(device);
+    device.addObserver(this);
+  }
+
+  /**
+   * Connect to the broker. The client keeps reconnecting in the background,
+   * so a broker that is down doesn't stop the monitor.
+   */
+  start(): void {
+    const options: IClientOptions = {
+      will: { topic: `${this.baseTopic}/status`, payload: Buffer.from('offline'), retain: true, qos: 1 },
+      ...(this.config.username !== undefined && { username: this.config.username }),
+      ...(this.config.password !== undefined && { password: this.config.password }),
+      ...(this.config.clientId !== undefined && { clientId: this.config.clientId }),
+    };
+
+    this.logger.info(`Connecting to MQTT broker ${this.config.url}`);
+    this.client = connect(this.config.url, options);
+
+    this.client.on('connect', () => {
+      this.logger.info(`Connected to MQTT broker ${this.config.url}`);
+      void this.publishAll();
+    });
+    this.client.on('reconnect', () => this.logger.debug('Reconnecting to MQTT broker...'));
+    this.client.on('offline', () => this.logger.warn('MQTT broker connection lost'));
+    this.client.on('error', error => this.logger.error('MQTT error:', error));
+    this.client.on('message', (topic, payload) => this.handleMessage(topic, payload));
+  }
+
+  /**
+   * Mark everything offline and disconnect
+   */
+  async stop(): Promise<void> {
+    if (!this.client) return;
+
+    if (this.client.connected) {
+      for (const device of this.devices) {
+        await this.publish(this.deviceTopic(device, 'status'), 'offline', { retain: true });
+      }
+      await this.publish(`${this.baseTopic}/status`, 'offline', { retain: true });
+    }
+
+    await this.client.endAsync();
+    this.client = null;
+    this.logger.info('Disconnected from MQTT broker');
+  }
+
+  isConnected(): boolean {
+    return this.client?.connected ?? false;
+  }
+
+  /**
+   * Publish a message, failing when the broker is not connected rather than
+   * queueing it for later
+   */
+  async publish(topic: string, payload: string, options: { retain?: boolean; qos?: 0 | 1 | 2 } = {}): Promise<void> {
+    if (!this.client?.connected) {
+      throw new Error(`MQTT broker not connected, can't publish to ${topic}`);
+    }
+
+    await this.client.publishAsync(topic, payload, {
+      qos: options.qos ?? this.config.qos ?? 0,
+      retain: options.retain ?? false,
+    });
+  }
+
+  connectionChanged(device: HIDDeviceManager, connected: boolean): void {
+    this.send(this.deviceTopic(device, 'status'), connected ? 'online' : 'offline', true);
+  }
+
+  statesReady(device: HIDDeviceManager): void {
+    this.publishDiscovery(device);
+    this.publishStates(device);
+  }
+
+  controlEvent(device: HIDDeviceManager, event: ControlEvent): void {
+    const topic = this.deviceTopic(device, topicLevel(event.controlId));
+
+    if (this.config.events !== false) {
+      this.send(`${topic}/event`, JSON.stringify({
+        event_type: event.type,
+        kind: event.kind,
+        state: event.state,
+        previousState: event.previousState,
+        timestamp: event.timestamp,
+        ...(event.delta !== undefined && { delta: event.delta }),
+        ...(event.raw !== undefined && { raw: event.raw }),
+      }), false);
+    }
+
+    // A knob's up/down pulses are encoder events too, but only its value is a state
+    const state = statePayload(event.state);
+    const stateful = STATEFUL_KINDS.includes(event.kind) && !(event.kind === 'encoder' && typeof event.state === 'boolean');
+    if (stateful && state !== null) {
+      this.send(`${topic}/state`, state, true);
+    }
+  }
+
+  /**
+   * Bring the broker up to date after (re)connecting: availability,
+   * discovery, retained states and subscriptions
+   */
+  private async publishAll(): Promise<void> {
+    try {
+      await this.publish(`${this.baseTopic}/status`, 'online', { retain: true });
+
+      for (const device of this.devices) {
+        this.connectionChanged(device, device.isDeviceConnected());
+        if (device.isDeviceConnected()) {
+          this.statesReady(device);
+        }
+      }
+
+      if (this.subscriptions.length > 0 && this.client) {
+        await this.client.subscribeAsync(this.subscriptions.map(([filter]) => filter));
+        this.logger.info(`Subscribed to ${this.subscriptions.length} MQTT topic(s)`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to publish to MQTT broker:', error);
+    }
+  }
+
+  private publishStates(device: HIDDeviceManager): void {
+    const kinds = new Map(device.getControls().map(control => [control.id, control.kind]));
+
+    for (const [controlId, state] of Object.entries(device.getControlStates())) {
+      const kind = kinds.get(controlId);
+      const payload = statePayload(state);
+
+      // Without control info, anything but a button's on/off is a state
+      const stateful = kind ? STATEFUL_KINDS.includes(kind) : typeof state !== 'boolean';
+      if (stateful && payload !== null) {
+        this.send(`${this.deviceTopic(device, topicLevel(controlId))}/state`, payload, true);
+      }
+    }
+  }
+
+  private publishDiscovery(device: HIDDeviceManager): void {
+    const { homeAssistant } = this.config;
+    if (!homeAssistant) return;
+
+    const prefix = (typeof homeAssistant === 'object' && homeAssistant.prefix) || DEFAULT_DISCOVERY_PREFIX;
+    const nodeId = topicLevel(`${this.baseTopic}_${device.deviceId}`).replace(/[^\w-]/g, '_');
+    const info = device.getDeviceInfo();
+
+    for (const control of device.getControls()) {
+      const objectId = topicLevel(control.id).replace(/[^\w-]/g, '_');
+      const [component, entity] = this.discoveryEntity(device, control);
+
+      const config = {
+        name: control.name,
+        unique_id: `${nodeId}_${objectId}`,
+        object_id: `${nodeId}_${objectId}`,
+        availability: [
+          { topic: `${this.baseTopic}/status` },
+          { topic: this.deviceTopic(device, 'status') },
+        ],
+        availability_mode: 'all',
+        device: {
+          identifiers: [nodeId],
+          name: device.getName(),
+          ...(info?.manufacturer && { manufacturer: info.manufacturer }),
+          ...(info?.product && { model: info.product }),
+        },
+        ...entity,
+      };
+
+      this.send(`${prefix}/${component}/${nodeId}/${objectId}/config`, JSON.stringify(config), true);
+    }
+  }
+
+  /**
+   * Home Assistant component and fields for a control: switches and knobs
+   * are sensors on the state topic, buttons and hats are events
+   */
+  private discoveryEntity(device: HIDDeviceManager, control: ControlInfo): [string, Record<string, unknown>] {
+    const topic = this.deviceTopic(device, topicLevel(control.id));
+
+    switch (control.kind) {
+      case 'toggle':
+        return ['binary_sensor', { state_topic: `${topic}/state`, payload_on: 'ON', payload_off: 'OFF' }];
+      case 'three-way':
+        return ['sensor', {
+          state_topic: `${topic}/state`,
+          ...(control.positions && { device_class: 'enum', options: control.positions }),
+        }];
+      case 'encoder':
+      case 'axis':
+        return ['sensor', { state_topic: `${topic}/state`, state_class: 'measurement' }];
+      default:
+        return ['event', {
+          state_topic: `${topic}/event`,
+          event_types: control.kind === 'hat' ? ['change'] : ['press', 'release'],
+        }];
+    }
+  }
+
+  /**
+   * Run the actions of the subscriptions a message matches
+   */
+  private handleMessage(topic: string, payload: Buffer): void {
+    const text = payload.toString();
+    let value: unknown = text;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      // Not JSON, keep the text
+    }
+
+    for (const [filter, action] of this.subscriptions) {
+      if (!topicMatches(filter, topic)) continue;
+
+      this.logger.debug(`MQTT message on ${topic}: ${text}`);
+      const bindingId = `mqtt:${filter}`;
+
+      this.executor.submit(bindingId, async signal => {
+        try {
+          await this.actionRegistry.executeAction(action, {
+            bindingId,
+            buttonName: topic,
+            trigger: 'mqtt',
+            topic,
+            payload: text,
+            value,
+            timestamp: Date.now(),
+            signal,
+          });
+        } catch (error) {
+          this.logger.error(`Failed to execute action for MQTT topic ${topic}:`, error);
+        }
+      });
+    }
+  }
+
+  private deviceTopic(device: HIDDeviceManager, level: string): string {
+    return `${this.baseTopic}/${topicLevel(device.deviceId)}/${level}`;
+  }
+
+  /**
+   * Publish in the background, skipping it while the broker is away; the
+   * retained topics are all refreshed on reconnect
+   */
+  private send(topic: string, payload: string, retain: boolean): void {
+    if (!this.client?.connected) return;
+
+    this.publish(topic, payload, { retain }).catch(error => {
+      this.logger.warn(`Failed to publish to ${topic}:`, error);
+    });
+  }
+}
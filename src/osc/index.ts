@@ -0,0 +1,218 @@
+import { createSocket, type Socket } from 'node:dgram';
+import type { ControlEvent, ControlKind, Logger, OscConfig, OscTarget } from '../types/index.js';
+import type { DeviceObserver, HIDDeviceManager } from '../hid/device-manager.js';
+
+/**
+ * An argument with its OSC type tag: i int32, f float32, d float64,
+ * s string, T true, F false, N nil
+ */
+export type OscValue =
+  | { tag: 'i' | 'f' | 'd'; value: number }
+  | { tag: 's'; value: string }
+  | { tag: 'T' | 'F' | 'N' };
+
+// Address level for each kind of control when forwarding
+const KIND_LEVELS: Record<ControlKind, string> = {
+  momentary: 'button',
+  toggle: 'toggle',
+  'three-way': 'switch',
+  encoder: 'knob',
+  hat: 'hat',
+  axis: 'axis',
+};
+
+/**
+ * Whether a number fits an OSC int32
+ */
+export function isInt32(value: number): boolean {
+  return Number.isInteger(value) && value >= -0x80000000 && value <= 0x7fffffff;
+}
+
+/**
+ * A string as OSC wants it: NUL terminated and padded to 4 bytes
+ */
+function encodeString(value: string): Buffer {
+  const bytes = Buffer.from(value, 'utf8');
+  const padded = Buffer.alloc((Math.floor(bytes.length / 4) + 1) * 4);
+  bytes.copy(padded);
+  return padded;
+}
+
+/**
+ * Encode an OSC 1.0 message
+ */
+export function encodeOscMessage(address: string, args: OscValue[] = []): Buffer {
+  const data = args.map(arg => {
+    switch (arg.tag) {
+      case 'i': {
+        const value = Math.trunc(arg.value);
+        if (!isInt32(value)) {
+          throw new Error(`OSC int argument out of range: ${arg.value}`);
+        }
+        const buffer = Buffer.alloc(4);
+        buffer.writeInt32BE(value);
+        return buffer;
+      }
+      case 'f': {
+        const buffer = Buffer.alloc(4);
+        buffer.writeFloatBE(arg.value);
+        return buffer;
+      }
+      case 'd': {
+        const buffer = Buffer.alloc(8);
+        buffer.writeDoubleBE(arg.value);
+        return buffer;
+      }
+      case 's':
+        return encodeString(arg.value);
+      default:
+        return Buffer.alloc(0);
+    }
+  });
+
+  return Buffer.concat([
+    encodeString(address),
+    encodeString(`,${args.map(arg => arg.tag).join('')}`),
+    ...data,
+  ]);
+}
+
+/**
+ * The OSC type for a plain value: whole numbers in int32 range are ints,
+ * larger ones like timestamps doubles so they keep every digit, the rest
+ * floats
+ */
+export function toOscValue(value: unknown): OscValue {
+  if (value === null || value === undefined) return { tag: 'N' };
+  if (typeof value === 'boolean') return { tag: value ? 'T' : 'F' };
+  if (typeof value === 'number') {
+    if (isInt32(value)) return { tag: 'i', value };
+    return { tag: Number.isInteger(value) ? 'd' : 'f', value };
+  }
+  return { tag: 's', value: String(value) };
+}
+
+/**
+ * OSC address level for an id: the characters OSC reserves become `_`,
+ * and dots split levels, so `abs.up` is `abs/up`
+ */
+export function addressLevels(id: string): string {
+  return id.replace(/[\s#*,?[\]{}]/g, '_').replace(/\./g, '/');
+}
+
+/**
+ * Sends OSC messages over UDP to the configured targets. With `forward`
+ * set it also mirrors every control event: a knob turn on device `cb1` is
+ * sent to `/cb1/knob/abs` with the delta and, for a bounded knob, its value.
+ * Buttons and toggles send 1 or 0, three-way switches and hats their
+ * position name and axes their value.
+ */
+export class OscClient implements DeviceObserver {
+  private socket: Socket | null = null;
+  private targets: Map<string, OscTarget>;
+  private forwardTarget: OscTarget | null = null;
+
+  constructor(
+    private config: OscConfig,
+    private logger: Logger
+  ) {
+    this.targets = new Map(Object.entries(config.targets ?? {}));
+
+    for (const [name, target] of this.targets) {
+      this.checkTarget(target, `osc.targets.${name}`);
+    }
+
+    if (config.forward) {
+      this.forwardTarget = this.resolveTarget(config.forward, 'osc.forward');
+    }
+  }
+
+  /**
+   * Mirror a device's control events when forwarding is on
+   */
+  attach(device: HIDDeviceManager): void {
+    if (this.forwardTarget) {
+      device.addObserver(this);
+    }
+  }
+
+  /**
+   * The target a named reference or host and port point at. Throws when it
+   * is unknown or malformed, naming `where` it was set.
+   */
+  resolveTarget(reference: { target?: string; host?: string; port?: number }, where: string): OscTarget {
+    if (reference.target !== undefined) {
+      const target = this.targets.get(reference.target);
+      if (!target) {
+        throw new Error(`${where}: unknown OSC target: ${reference.target}`);
+      }
+      return target;
+    }
+
+    const target = { host: reference.host, port: reference.port } as OscTarget;
+    this.checkTarget(target, where);
+    return target;
+  }
+
+  async send(target: OscTarget, address: string, args: OscValue[] = []): Promise<void> {
+    const message = encodeOscMessage(address, args);
+    const socket = this.getSocket();
+
+    await new Promise<void>((resolve, reject) => {
+      socket.send(message, target.port, target.host, error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  stop(): void {
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  controlEvent(device: HIDDeviceManager, event: ControlEvent): void {
+    if (!this.forwardTarget) return;
+
+    const prefix = this.config.forward?.prefix ?? `/${addressLevels(device.deviceId)}`;
+    const address = `${prefix}/${KIND_LEVELS[event.kind]}/${addressLevels(event.controlId)}`;
+    const args = this.eventArguments(event);
+
+    this.send(this.forwardTarget, address, args).catch(error => {
+      this.logger.warn(`Failed to forward ${address} over OSC:`, error);
+    });
+  }
+
+  private eventArguments(event: ControlEvent): OscValue[] {
+    const { state, delta } = event;
+
+    if (delta !== undefined) {
+      return typeof state === 'number'
+        ? [toOscValue(delta), toOscValue(state)]
+        : [toOscValue(delta)];
+    }
+    if (typeof state === 'boolean') {
+      return [{ tag: 'i', value: state ? 1 : 0 }];
+    }
+    if (event.kind === 'axis' && typeof state === 'number') {
+      return [{ tag: 'f', value: state }];
+    }
+    return [toOscValue(state)];
+  }
+
+  private checkTarget(target: Partial<OscTarget>, where: string): void {
+    if (typeof target.host !== 'string' || target.host === '') {
+      throw new Error(`${where}: "host" must be a non-empty string`);
+    }
+    if (!Number.isInteger(target.port) || (target.port as number) < 1 || (target.port as number) > 65535) {
+      throw new Error(`${where}: "port" must be a UDP port number`);
+    }
+  }
+
+  private getSocket(): Socket {
+    if (!this.socket) {
+      this.socket = createSocket('udp4');
+      this.socket.on('error', error => this.logger.error('OSC socket error:', error));
+      // Nothing is received, so the socket never keeps the process alive
+      this.socket.unref();
+    }
+    return this.socket;
+  }
+}
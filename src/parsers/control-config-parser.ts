@@ -1,167 +1,390 @@
 import { ParsedEvent } from '../types/index.js';
 import { readFileSync } from 'fs';
 import type { EventParser } from './index.js';
-import type { HIDDevice } from '../types/index.js';
+import type { ControlEvent, ControlInfo, ControlKind, HIDDevice } from '../types/index.js';
+import { createControlEvent } from './control-events.js';
+import { RotaryEncoder, type EncoderSettings } from './encoder.js';
+import { matchesDevice, type DeviceMatch, type ReportLayout } from '../profiles/index.js';
 
-interface ControlChange {
-  changes: string[];
+interface ControlField {
+  byte: number;
+  mask: number;
+  value?: number;
   default_name: string;
   user_name: string | null;
   type?: string;
 }
 
-interface ControlConfig {
+export interface ControlConfig {
   controls: {
-    buttons: Record<string, ControlChange>;
-    knobs: Record<string, Record<string, ControlChange>>;
-    toggles: Record<string, Record<string, ControlChange> & { type: string }>;
-    joystick: Record<string, ControlChange>;
+    buttons: Record<string, ControlField>;
+    knobs: Record<string, Record<string, ControlField> & { encoder?: EncoderSettings }>;
+    toggles: Record<string, Record<string, ControlField> & { type: string }>;
+    joystick: Record<string, ControlField> & { cardinal_only?: boolean };
   };
-  metadata: {
+  metadata?: {
     device: string;
     version: string;
     description: string;
-    change_format: string;
+    field_format: string;
     types: Record<string, string>;
   };
 }
 
+/**
+ * A single decodable control. Binary controls (buttons, knob pulses) are
+ * on when the masked byte equals `value`; multi-position controls (three-way
+ * toggles, the joystick hat) report whichever position's value matches.
+ */
+export interface ControlDefinition {
+  id: string;
+  name: string;
+  kind: ControlKind;
+  type: string;
+  byte: number;
+  mask: number;
+  value?: number;
+  positions?: Record<string, { value: number; name: string }>;
+  encoder?: { knobId: string; direction: 1 | -1 };
+  cardinalOnly?: boolean;
+}
+
+/**
+ * Decoded state of every control: a boolean for binary controls, the
+ * position name (or null when no position matches) for multi-position ones
+ * and the accumulated value (or null when unbounded) for encoders.
+ */
+export type ControlStates = Record<string, boolean | number | string | null>;
+
+const ENCODER_DIRECTIONS: Record<string, 1 | -1> = { up: 1, down: -1 };
+
+const CONTROL_PACKET_LENGTH = 6;
+
+export interface ControlConfigParserOptions {
+  match?: DeviceMatch; // devices this parser supports, any when unset
+  report?: ReportLayout; // defaults to 6-byte reports with any report ID
+}
+
 export class ControlConfigParser implements EventParser {
   name = 'ControlConfigParser';
   private config: ControlConfig;
-  private previousState: number[] = [0, 0, 0, 0, 0, 0];
+  private definitions: ControlDefinition[];
+  private encoders = new Map<string, RotaryEncoder>();
+  private previousStates: ControlStates | null = null;
 
-  constructor(configPath: string = 'config-controls.json') {
-    try {
-      const configData = readFileSync(configPath, 'utf8');
-      this.config = JSON.parse(configData);
-    } catch (error) {
-      throw new Error(`Failed to load control config: ${error}`);
+  /**
+   * @param source path to a control config file, or its contents
+   */
+  constructor(
+    source: string | ControlConfig = 'config-controls.json',
+    private options: ControlConfigParserOptions = {}
+  ) {
+    if (typeof source === 'string') {
+      try {
+        const configData = readFileSync(source, 'utf8');
+        this.config = JSON.parse(configData);
+      } catch (error) {
+        throw new Error(`Failed to load control config: ${error}`);
+      }
+    } else {
+      this.config = source;
     }
+
+    this.definitions = this.buildDefinitions();
   }
 
   parse(data: Buffer): ParsedEvent {
-    const currentState = Array.from(data);
-    
-    // Only process 6-byte packets (PXN CB1 control data)
-    // Ignore the 64-byte packets which seem to be status/configuration data
-    if (currentState.length !== 6) {
+    // Only process control reports (6 bytes on the PXN CB1); ignore anything
+    // else, such as the CB1's 64-byte status/configuration packets
+    if (!this.isControlReport(data)) {
       return {
         timestamp: Date.now(),
-        buttonStates: new Array(8).fill(false),
+        buttonStates: this.toButtonStates(this.previousStates),
+        controlEvents: [],
         rawData: data,
         deviceId: 'pxn-cb1'
       };
     }
-    
-    // Find what changed
-    const changes = this.detectChanges(this.previousState, currentState);
-    
-    // Match changes against our config
-    const matchedControl = this.matchChanges(changes);
-    
-    this.previousState = currentState;
-    
-    // Create button states array - set the matched control's button index to true
-    const buttonStates = new Array(8).fill(false);
-    
-    if (matchedControl) {
-      // Find which button this control corresponds to by searching through the config
-      const buttonIndex = this.findButtonIndexForControl(matchedControl);
-      if (buttonIndex >= 0 && buttonIndex < 8) {
-        buttonStates[buttonIndex] = true;
+
+    const timestamp = Date.now();
+    const currentStates = this.decode(data, this.previousStates);
+    let controlEvents: ControlEvent[] = [];
+
+    // The first packet only establishes the baseline (latching toggles may
+    // already be on), every later packet is compared control by control
+    if (this.previousStates) {
+      controlEvents = this.createControlEvents(this.previousStates, currentStates, timestamp);
+
+      for (const change of this.describeChanges(this.previousStates, currentStates)) {
+        console.log(`🎮 Control changed: ${change}`);
       }
-      
-      console.log(`🎮 Control detected: ${matchedControl.default_name} (${matchedControl.type || 'unknown'})`);
-    } else if (changes.length > 0) {
-      console.log(`🔍 Changes detected but no control matched: ${changes.join(', ')}`);
     }
 
+    this.previousStates = currentStates;
+
     return {
-      timestamp: Date.now(),
-      buttonStates: buttonStates,
+      timestamp,
+      buttonStates: this.toButtonStates(currentStates),
+      controlEvents,
       rawData: data,
       deviceId: 'pxn-cb1'
     };
   }
 
-  private findButtonIndexForControl(control: ControlChange): number {
-    // Search through buttons to find the matching control
-    for (const [buttonId, button] of Object.entries(this.config.controls.buttons)) {
-      if (this.changesMatch(button.changes, control.changes)) {
-        return parseInt(buttonId);
-      }
-    }
-    
-    // If not found in buttons, return -1 (no button mapping)
-    return -1;
+  supportsDevice(device: HIDDevice): boolean {
+    return matchesDevice(this.options.match, device);
   }
 
-  supportsDevice(device: HIDDevice): boolean {
-    // Support PXN CB1 devices
-    return device.vendorId === 0x36E6 && device.productId === 0x8001;
+  private isControlReport(data: Buffer): boolean {
+    const { length = CONTROL_PACKET_LENGTH, reportId } = this.options.report ?? {};
+    return data.length === length && (reportId === undefined || data[0] === reportId);
   }
 
-  private detectChanges(previous: number[], current: number[]): string[] {
-    const changes: string[] = [];
-    
-    for (let i = 0; i < Math.min(previous.length, current.length); i++) {
-      if (previous[i] !== current[i]) {
-        changes.push(`byte${i + 1}:${previous[i]}->${current[i]}`);
-      }
+  /**
+   * Forget the baseline so the next control packet sets a new one. Encoder
+   * values are kept, as the knobs are relative and never report a position.
+   */
+  reset(): void {
+    this.previousStates = null;
+    this.encoders.forEach(encoder => encoder.reset());
+  }
+
+  /**
+   * Live state of every control as of the last control packet, empty until
+   * the first one arrives
+   */
+  getControlStates(): ControlStates {
+    if (!this.previousStates) return {};
+
+    const states: ControlStates = { ...this.previousStates };
+
+    for (const [knobId, encoder] of this.encoders) {
+      states[knobId] = encoder.getValue();
     }
-    
-    return changes;
+
+    return states;
   }
 
-  private matchChanges(changes: string[]): ControlChange | null {
-    // Check buttons first
-    for (const [, button] of Object.entries(this.config.controls.buttons)) {
-      if (this.changesMatch(button.changes, changes)) {
-        return button;
+  /**
+   * Every control, with each knob's encoder after its pulses. The pulses
+   * themselves are listed as buttons, as they only press and release.
+   */
+  getControls(): ControlInfo[] {
+    const controls: ControlInfo[] = [];
+
+    for (const definition of this.definitions) {
+      controls.push({
+        id: definition.id,
+        name: definition.name,
+        kind: definition.encoder ? 'momentary' : definition.kind,
+        ...(definition.positions && { positions: Object.keys(definition.positions) }),
+      });
+
+      const knobId = definition.encoder?.knobId;
+      if (knobId && !controls.some(control => control.id === knobId)) {
+        controls.push({ id: knobId, name: knobId, kind: 'encoder' });
       }
     }
 
-    // Check knobs
-    for (const [, knobActions] of Object.entries(this.config.controls.knobs)) {
-      for (const [, knob] of Object.entries(knobActions)) {
-        if (this.changesMatch(knob.changes, changes)) {
-          return knob;
+    return controls;
+  }
+
+  /**
+   * Decode the state of every configured control from a single packet.
+   * The previous states are only needed for cardinal-only hats.
+   */
+  decode(data: Buffer, previous?: ControlStates | null): ControlStates {
+    const states: ControlStates = {};
+
+    for (const definition of this.definitions) {
+      const field = (data[definition.byte] ?? 0) & definition.mask;
+
+      if (definition.positions) {
+        const position = Object.entries(definition.positions)
+          .find(([, p]) => p.value === field);
+        states[definition.id] = position ? position[0] : null;
+
+        if (definition.cardinalOnly && position) {
+          states[definition.id] = this.toCardinal(position[0], previous?.[definition.id]);
         }
+      } else {
+        states[definition.id] = field === (definition.value ?? definition.mask);
       }
     }
 
-    // Check toggles
-    for (const [, toggleActions] of Object.entries(this.config.controls.toggles)) {
-      for (const [action, toggle] of Object.entries(toggleActions)) {
-        if (action === 'type') continue;
-        if (typeof toggle === 'object' && 'changes' in toggle && this.changesMatch(toggle.changes, changes)) {
-          return toggle as ControlChange;
+    return states;
+  }
+
+  /**
+   * Flatten the grouped config into one definition per decodable control
+   */
+  private buildDefinitions(): ControlDefinition[] {
+    const { buttons, knobs, toggles, joystick } = this.config.controls;
+    const definitions: ControlDefinition[] = [];
+
+    for (const [id, button] of Object.entries(buttons)) {
+      const type = button.type || 'momentary';
+      definitions.push(this.binaryDefinition(id, button, type === 'toggle' ? 'toggle' : 'momentary', type));
+    }
+
+    // Each knob action (up/down pulse, click) is its own bit; the up/down
+    // pulses also drive a relative encoder for the knob as a whole
+    for (const [knobId, knobActions] of Object.entries(knobs)) {
+      this.encoders.set(knobId, new RotaryEncoder(knobActions.encoder));
+
+      const fields = Object.entries(knobActions)
+        .filter((entry): entry is [string, ControlField] => entry[0] !== 'encoder');
+
+      for (const [action, field] of fields) {
+        const direction = ENCODER_DIRECTIONS[action];
+        const kind = direction ? 'encoder' : 'momentary';
+        const definition = this.binaryDefinition(`${knobId}.${action}`, field, kind, kind);
+
+        if (direction) {
+          definition.encoder = { knobId, direction };
         }
+        definitions.push(definition);
       }
     }
 
-    // Check joystick
-    for (const [, joystick] of Object.entries(this.config.controls.joystick)) {
-      if (this.changesMatch(joystick.changes, changes)) {
-        return joystick;
+    for (const [toggleId, toggleActions] of Object.entries(toggles)) {
+      const fields = Object.entries(toggleActions)
+        .filter((entry): entry is [string, ControlField] => entry[0] !== 'type');
+      definitions.push(this.positionDefinition(toggleId, fields, 'three-way', toggleActions.type));
+    }
+
+    // The joystick is a hat: one position per direction plus center, and a
+    // separate bit for pushing the stick in
+    const directions = Object.entries(joystick)
+      .filter((entry): entry is [string, ControlField] =>
+        entry[0] !== 'cardinal_only' && entry[0] !== 'press');
+
+    if (directions.length > 0) {
+      const hat = this.positionDefinition('joystick', directions, 'hat', 'hat');
+      hat.cardinalOnly = joystick.cardinal_only === true;
+      definitions.push(hat);
+    }
+
+    if (joystick.press) {
+      definitions.push(this.binaryDefinition('joystick.press', joystick.press, 'momentary', 'momentary'));
+    }
+
+    return definitions;
+  }
+
+  private binaryDefinition(
+    id: string,
+    field: ControlField,
+    kind: ControlKind,
+    type: string
+  ): ControlDefinition {
+    const definition: ControlDefinition = {
+      id,
+      name: field.user_name || field.default_name,
+      kind,
+      type,
+      byte: field.byte,
+      mask: field.mask,
+    };
+
+    if (field.value !== undefined) {
+      definition.value = field.value;
+    }
+
+    return definition;
+  }
+
+  private positionDefinition(
+    id: string,
+    fields: [string, ControlField][],
+    kind: ControlKind,
+    type: string
+  ): ControlDefinition {
+    const [, first] = fields[0];
+    const positions: Record<string, { value: number; name: string }> = {};
+
+    for (const [position, field] of fields) {
+      if (field.byte !== first.byte || field.mask !== first.mask) {
+        throw new Error(`Control ${id}.${position} must share byte and mask with the other positions of ${id}`);
       }
+
+      positions[position] = {
+        value: field.value ?? field.mask,
+        name: field.user_name || field.default_name,
+      };
     }
 
-    return null;
+    return { id, name: id, kind, type, byte: first.byte, mask: first.mask, positions };
   }
 
-  private changesMatch(configChanges: string[], actualChanges: string[]): boolean {
-    // For now, we'll do exact matching
-    // In the future, we could make this more flexible
-    if (configChanges.length !== actualChanges.length) {
-      return false;
+  private createControlEvents(
+    previous: ControlStates,
+    current: ControlStates,
+    timestamp: number,
+    turnEncoders = true
+  ): ControlEvent[] {
+    const events: ControlEvent[] = [];
+
+    for (const definition of this.definitions) {
+      const before = previous[definition.id] ?? null;
+      const after = current[definition.id] ?? null;
+
+      if (before === after) continue;
+
+      events.push(createControlEvent(definition.id, definition.kind, before, after, timestamp, 'pxn-cb1'));
+
+      // Every up/down pulse is one detent of the knob's encoder
+      const encoder = definition.encoder && this.encoders.get(definition.encoder.knobId);
+      if (definition.encoder && encoder && after === true && turnEncoders) {
+        const turn = encoder.turn(definition.encoder.direction, timestamp);
+        events.push({
+          ...createControlEvent(definition.encoder.knobId, 'encoder', turn.previousValue, turn.value, timestamp, 'pxn-cb1'),
+          delta: turn.delta,
+        });
+      }
     }
 
-    const sortedConfig = [...configChanges].sort();
-    const sortedActual = [...actualChanges].sort();
+    return events;
+  }
 
-    return sortedConfig.every((change, index) => change === sortedActual[index]);
+  /**
+   * Fold a diagonal into one of its cardinal directions, staying on the
+   * direction the stick came from when it is part of the diagonal
+   */
+  private toCardinal(position: string, previous: ControlStates[string] | undefined): string {
+    const components = position.split('_');
+    if (components.length < 2) return position;
+
+    return typeof previous === 'string' && components.includes(previous) ? previous : components[0];
+  }
+
+  /**
+   * Binary controls in definition order, so button indices stay stable
+   */
+  private toButtonStates(states: ControlStates | null): boolean[] {
+    return this.definitions
+      .filter(definition => !definition.positions)
+      .map(definition => states?.[definition.id] === true);
+  }
+
+  private describeChanges(previous: ControlStates, current: ControlStates): string[] {
+    const changes: string[] = [];
+
+    for (const definition of this.definitions) {
+      const before = previous[definition.id];
+      const after = current[definition.id];
+
+      if (before === after) continue;
+
+      if (definition.positions) {
+        const positionName = after ? definition.positions[after as string]?.name : 'unknown position';
+        changes.push(`${definition.id}: ${before} -> ${after} (${positionName})`);
+      } else {
+        changes.push(`${definition.id}: ${before} -> ${after} (${definition.name})`);
+      }
+    }
+
+    return changes;
   }
 
   // Helper method to get all available controls for debugging
@@ -169,51 +392,46 @@ export class ControlConfigParser implements EventParser {
     return this.config.controls;
   }
 
+  // Helper method to get the flattened control definitions
+  getDefinitions(): ControlDefinition[] {
+    return [...this.definitions];
+  }
+
   // Helper method to get control by ID
-  getControl(controlType: string, controlId: string, action?: string): ControlChange | null {
+  getControl(controlType: string, controlId: string, action?: string): ControlField | null {
     const controls = this.config.controls[controlType as keyof typeof this.config.controls];
     if (!controls) return null;
 
     if (action) {
-      return (controls as Record<string, Record<string, ControlChange>>)[controlId]?.[action] || null;
+      return (controls as Record<string, Record<string, ControlField>>)[controlId]?.[action] || null;
     }
 
-    return (controls as Record<string, ControlChange>)[controlId] || null;
+    return (controls as Record<string, ControlField>)[controlId] || null;
   }
 
   // Debug method to get detected changes
   getDetectedChanges(data: Buffer): string[] {
-    const currentState = Array.from(data);
-    return this.detectChanges(this.previousState, currentState);
+    const currentStates = this.decode(data, this.previousStates);
+    return this.previousStates ? this.describeChanges(this.previousStates, currentStates) : [];
   }
 
   // Test method that doesn't update state
   testParse(baseline: Buffer, data: Buffer): ParsedEvent | null {
-    const baselineState = Array.from(baseline);
-    const currentState = Array.from(data);
-    
-    // Find what changed
-    const changes = this.detectChanges(baselineState, currentState);
-    
+    const baselineStates = this.decode(baseline);
+    const changes = this.describeChanges(baselineStates, this.decode(data, baselineStates));
+
     if (changes.length === 0) {
       return null;
     }
 
-    // Match changes against our config
-    const matchedControl = this.matchChanges(changes);
-    
-    if (matchedControl) {
-      // Convert button states to boolean array (simplified for now)
-      const buttonStates = new Array(8).fill(false);
-      
-      return {
-        timestamp: Date.now(),
-        buttonStates: buttonStates,
-        rawData: data,
-        deviceId: 'pxn-cb1'
-      };
-    }
+    const timestamp = Date.now();
 
-    return null;
+    return {
+      timestamp,
+      buttonStates: this.toButtonStates(this.decode(data, baselineStates)),
+      controlEvents: this.createControlEvents(baselineStates, this.decode(data, baselineStates), timestamp, false),
+      rawData: data,
+      deviceId: 'pxn-cb1'
+    };
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,47 @@
+import type { ControlEvent, ControlKind, ControlState } from '../types/index.js';
+
+/**
+ * Build a control event, deriving press/release/change from the new state
+ */
+export function createControlEvent(
+  controlId: string,
+  kind: ControlKind,
+  previousState: ControlState,
+  state: ControlState,
+  timestamp: number,
+  deviceId: string
+): ControlEvent {
+  let type: ControlEvent['type'] = 'change';
+
+  if (typeof state === 'boolean') {
+    type = state ? 'press' : 'release';
+  }
+
+  return { controlId, kind, type, previousState, state, timestamp, deviceId };
+}
+
+/**
+ * Diff two plain button arrays into momentary press/release events.
+ * Used by parsers that only know about numbered buttons.
+ */
+export function diffButtonStates(
+  previous: boolean[],
+  current: boolean[],
+  timestamp: number,
+  deviceId: string
+): ControlEvent[] {
+  const events: ControlEvent[] = [];
+
+  for (let i = 0; i < Math.max(previous.length, current.length); i++) {
+    const previousState = previous[i] || false;
+    const currentState = current[i] || false;
+
+    if (previousState !== currentState) {
+      events.push(
+        createControlEvent(`button_${i + 1}`, 'momentary', previousState, currentState, timestamp, deviceId)
+      );
+    }
+  }
+
+  return events;
+}
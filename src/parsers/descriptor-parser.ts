@@ -0,0 +1,185 @@
+import type { ActionMapping, AxisCalibration, ControlEvent, ControlInfo, ControlKind, HIDDevice, Logger, ParsedEvent } from '../types/index.js';
+import type { EventParser } from './index.js';
+import { ButtonParser } from './index.js';
+import { createControlEvent } from './control-events.js';
+import { parseReportDescriptor, readField, type DescriptorField, type DescriptorLayout } from './hid-descriptor.js';
+import { matchesDevice, type DeviceMatch, type DeviceProfile } from '../profiles/index.js';
+
+// Hat values from the logical minimum up, clockwise from up
+const HAT_POSITIONS_8 = ['up', 'up_right', 'right', 'down_right', 'down', 'down_left', 'left', 'up_left'];
+const HAT_POSITIONS_4 = ['up', 'right', 'down', 'left'];
+
+const FIELD_KINDS: Record<DescriptorField['kind'], ControlKind> = {
+  button: 'momentary',
+  axis: 'axis',
+  hat: 'hat',
+};
+
+type FieldStates = Record<string, boolean | number | string | null>;
+
+/**
+ * Parser for devices without a hand-written profile. The field layout comes
+ * from the device's HID report descriptor (or a profile exported from one):
+ * buttons press and release, hats move between `center` and eight (or four)
+ * directions like the CB1 joystick, and axes report their raw value.
+ *
+ * Until a layout is known every bit of every byte is treated as a button,
+ * like ButtonParser.
+ */
+export class DescriptorParser implements EventParser {
+  name = 'DescriptorParser';
+  private layout: DescriptorLayout | null;
+  private fallback = new ButtonParser();
+  private previousStates = new Map<number, FieldStates>();
+
+  constructor(
+    private match?: DeviceMatch,
+    layout?: DescriptorLayout,
+    private logger?: Logger
+  ) {
+    this.layout = layout ?? null;
+  }
+
+  supportsDevice(device: HIDDevice): boolean {
+    return matchesDevice(this.match, device);
+  }
+
+  /**
+   * Build the layout from the descriptor the device reported, unless a
+   * profile already supplied one
+   */
+  setReportDescriptor(descriptor: Buffer): void {
+    if (this.layout) return;
+
+    this.layout = parseReportDescriptor(descriptor);
+    this.previousStates.clear();
+
+    const counts = this.layout.fields.reduce<Record<string, number>>((totals, field) => {
+      totals[field.kind] = (totals[field.kind] ?? 0) + 1;
+      return totals;
+    }, {});
+    this.logger?.info(
+      `Report descriptor: ${counts.button ?? 0} buttons, ${counts.axis ?? 0} axes, ${counts.hat ?? 0} hats` +
+        (this.layout.usesReportIds ? ' (with report IDs)' : '')
+    );
+  }
+
+  getLayout(): DescriptorLayout | null {
+    return this.layout;
+  }
+
+  reset(): void {
+    this.previousStates.clear();
+    this.fallback.reset();
+  }
+
+  parse(data: Buffer): ParsedEvent {
+    if (!this.layout) {
+      return this.fallback.parse(data);
+    }
+
+    const timestamp = Date.now();
+    const reportId = this.layout.usesReportIds ? data[0] : 0;
+    const report = this.layout.usesReportIds ? data.subarray(1) : data;
+    const fields = this.layout.fields.filter(field => field.reportId === reportId);
+
+    const current: FieldStates = {};
+    for (const field of fields) {
+      current[field.id] = this.decodeField(report, field);
+    }
+
+    // The first report of each ID only establishes the baseline
+    const previous = this.previousStates.get(reportId);
+    const controlEvents: ControlEvent[] = [];
+
+    if (previous) {
+      for (const field of fields) {
+        if (previous[field.id] !== current[field.id]) {
+          controlEvents.push(
+            createControlEvent(field.id, FIELD_KINDS[field.kind], previous[field.id] ?? null, current[field.id], timestamp, 'hid-descriptor')
+          );
+        }
+      }
+    }
+
+    this.previousStates.set(reportId, current);
+
+    return {
+      timestamp,
+      buttonStates: fields.filter(field => field.kind === 'button').map(field => current[field.id] === true),
+      controlEvents,
+      rawData: data,
+      deviceId: 'hid-descriptor',
+    };
+  }
+
+  getAxisRanges(): Record<string, AxisCalibration> {
+    const ranges: Record<string, AxisCalibration> = {};
+    for (const field of this.layout?.fields ?? []) {
+      if (field.kind === 'axis' && !field.relative) {
+        ranges[field.id] = { min: field.logicalMin, max: field.logicalMax };
+      }
+    }
+    return ranges;
+  }
+
+  getControlStates(): FieldStates {
+    return Object.assign({}, ...this.previousStates.values());
+  }
+
+  getControls(): ControlInfo[] {
+    return (this.layout?.fields ?? []).map(field => ({
+      id: field.id,
+      name: field.name,
+      kind: FIELD_KINDS[field.kind],
+      ...(field.kind === 'hat' && {
+        positions: ['center', ...(field.logicalMax - field.logicalMin + 1 === 4 ? HAT_POSITIONS_4 : HAT_POSITIONS_8)],
+      }),
+    }));
+  }
+
+  private decodeField(report: Buffer, field: DescriptorField): boolean | number | string | null {
+    const value = readField(report, field);
+    if (value === null) return null;
+
+    if (field.kind === 'button') {
+      return value !== 0;
+    }
+
+    if (field.kind === 'hat') {
+      const positions = field.logicalMax - field.logicalMin + 1 === 4 ? HAT_POSITIONS_4 : HAT_POSITIONS_8;
+      return positions[value - field.logicalMin] ?? 'center';
+    }
+
+    return value;
+  }
+}
+
+/**
+ * A starting profile for a device from its parsed descriptor, with a
+ * logging binding for every control. Rename the controls and replace the
+ * bindings, then drop the file into the profiles directory.
+ */
+export function createDescriptorProfile(device: HIDDevice, layout: DescriptorLayout): DeviceProfile {
+  const actions: ActionMapping = {};
+
+  for (const field of layout.fields) {
+    actions[field.id] = field.kind === 'button'
+      ? { name: field.name, action: 'log' }
+      : { name: field.name, change: 'log' };
+  }
+
+  return {
+    name: device.product || `Device ${device.vendorId.toString(16)}:${device.productId.toString(16)}`,
+    description: 'Generated from the HID report descriptor',
+    match: {
+      vendorId: device.vendorId,
+      productId: device.productId,
+      ...(device.usagePage && { usagePage: device.usagePage }),
+      ...(device.interface >= 0 && { interface: device.interface }),
+    },
+    parser: 'DescriptorParser',
+    layout,
+    actions,
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Encoder settings for a knob. Without min/max the knob is purely relative
+ * and only reports deltas.
+ */
+export interface EncoderSettings {
+  step?: number; // value change per detent
+  min?: number;
+  max?: number;
+  initial?: number;
+  mode?: 'clamp' | 'wrap';
+  acceleration?: {
+    threshold: number; // ms between detents below which turns speed up
+    maxMultiplier: number;
+  };
+}
+
+export interface EncoderTurn {
+  delta: number;
+  previousValue: number | null;
+  value: number | null;
+}
+
+/**
+ * Relative rotary encoder fed one detent at a time.
+ *
+ * Fast turns are accelerated: a detent arriving `interval` ms after the
+ * previous one counts `threshold / interval` steps, capped at
+ * `maxMultiplier`. With min and max set, the deltas are accumulated into an
+ * absolute value that is clamped or wrapped at the ends of the range.
+ */
+export class RotaryEncoder {
+  private value: number | null;
+  private lastTurnAt: number | null = null;
+
+  constructor(private settings: EncoderSettings = {}) {
+    const { min, max, initial } = settings;
+
+    if (min !== undefined && max !== undefined) {
+      if (min >= max) {
+        throw new Error(`Encoder min (${min}) must be below max (${max})`);
+      }
+      this.value = Math.min(max, Math.max(min, initial ?? min));
+    } else {
+      this.value = null;
+    }
+  }
+
+  turn(direction: 1 | -1, timestamp: number): EncoderTurn {
+    const step = this.settings.step ?? 1;
+    const delta = direction * step * this.getMultiplier(timestamp);
+    const previousValue = this.value;
+
+    this.lastTurnAt = timestamp;
+
+    if (previousValue !== null) {
+      this.value = this.applyRange(previousValue + delta);
+    }
+
+    return { delta, previousValue, value: this.value };
+  }
+
+  getValue(): number | null {
+    return this.value;
+  }
+
+  reset(): void {
+    this.lastTurnAt = null;
+  }
+
+  private getMultiplier(timestamp: number): number {
+    const { acceleration } = this.settings;
+    if (!acceleration || this.lastTurnAt === null) return 1;
+
+    const interval = Math.max(1, timestamp - this.lastTurnAt);
+    const multiplier = Math.round(acceleration.threshold / interval);
+
+    return Math.min(acceleration.maxMultiplier, Math.max(1, multiplier));
+  }
+
+  private applyRange(value: number): number {
+    const min = this.settings.min as number;
+    const max = this.settings.max as number;
+
+    if (this.settings.mode === 'wrap') {
+      const span = max - min + 1;
+      return ((((value - min) % span) + span) % span) + min;
+    }
+
+    return Math.min(max, Math.max(min, value));
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * HID report descriptor parsing: turns the descriptor a device publishes
+ * into a list of input fields (buttons, axes, hats) with their position in
+ * the input report. See the HID 1.11 spec, section 6.2.2.
+ */
+
+export type DescriptorFieldKind = 'button' | 'axis' | 'hat';
+
+export interface DescriptorField {
+  id: string; // control id, e.g. `button_3`, `x`, `hat`
+  name: string;
+  kind: DescriptorFieldKind;
+  reportId: number; // 0 when the device doesn't use report IDs
+  bitOffset: number; // from the start of the report, after the report ID byte
+  bitSize: number;
+  logicalMin: number;
+  logicalMax: number;
+  usagePage: number;
+  usage: number;
+  relative?: boolean;
+}
+
+export interface DescriptorLayout {
+  usesReportIds: boolean;
+  fields: DescriptorField[];
+}
+
+const USAGE_PAGE_GENERIC_DESKTOP = 0x01;
+const USAGE_PAGE_BUTTON = 0x09;
+const USAGE_HAT_SWITCH = 0x39;
+
+// Generic Desktop axis usages and the control ids they get
+const AXIS_NAMES: Record<number, string> = {
+  0x30: 'x',
+  0x31: 'y',
+  0x32: 'z',
+  0x33: 'rx',
+  0x34: 'ry',
+  0x35: 'rz',
+  0x36: 'slider',
+  0x37: 'dial',
+  0x38: 'wheel',
+};
+
+const ITEM_TYPE_MAIN = 0;
+const ITEM_TYPE_GLOBAL = 1;
+const ITEM_TYPE_LOCAL = 2;
+
+interface GlobalState {
+  usagePage: number;
+  logicalMin: number;
+  logicalMax: number;
+  reportSize: number;
+  reportCount: number;
+  reportId: number;
+}
+
+interface LocalState {
+  usages: number[]; // may carry the page in the upper 16 bits
+  usageMin: number | null;
+  usageMax: number | null;
+}
+
+function emptyLocal(): LocalState {
+  return { usages: [], usageMin: null, usageMax: null };
+}
+
+function readUnsigned(data: Buffer, offset: number, size: number): number {
+  let value = 0;
+  for (let i = 0; i < size; i++) {
+    value += data[offset + i] * 2 ** (8 * i);
+  }
+  return value;
+}
+
+function readSigned(data: Buffer, offset: number, size: number): number {
+  const value = readUnsigned(data, offset, size);
+  const bits = size * 8;
+  return size > 0 && value >= 2 ** (bits - 1) ? value - 2 ** bits : value;
+}
+
+/**
+ * Parse a report descriptor into its input fields. Constant (padding)
+ * inputs and array inputs (keyboard-style usage lists) are skipped.
+ */
+export function parseReportDescriptor(descriptor: Buffer): DescriptorLayout {
+  const fields: DescriptorField[] = [];
+  const bitOffsets = new Map<number, number>();
+  const stack: GlobalState[] = [];
+  let global: GlobalState = { usagePage: 0, logicalMin: 0, logicalMax: 0, reportSize: 0, reportCount: 0, reportId: 0 };
+  let local = emptyLocal();
+  let usesReportIds = false;
+
+  let position = 0;
+  while (position < descriptor.length) {
+    const prefix = descriptor[position];
+
+    // Long items carry vendor data only
+    if (prefix === 0xfe) {
+      position += 3 + (descriptor[position + 1] ?? 0);
+      continue;
+    }
+
+    const size = [0, 1, 2, 4][prefix & 0x03];
+    const type = (prefix >> 2) & 0x03;
+    const tag = prefix >> 4;
+    const offset = position + 1;
+    position = offset + size;
+
+    if (position > descriptor.length) {
+      throw new Error(`Truncated report descriptor item at byte ${offset - 1}`);
+    }
+
+    const unsigned = readUnsigned(descriptor, offset, size);
+
+    if (type === ITEM_TYPE_GLOBAL) {
+      switch (tag) {
+        case 0x0: global.usagePage = unsigned; break;
+        case 0x1: global.logicalMin = readSigned(descriptor, offset, size); break;
+        case 0x2:
+          // Devices often store e.g. 255 in one byte; that only reads as
+          // signed when the minimum is negative
+          global.logicalMax = global.logicalMin < 0 ? readSigned(descriptor, offset, size) : unsigned;
+          break;
+        case 0x7: global.reportSize = unsigned; break;
+        case 0x8: global.reportId = unsigned; usesReportIds = true; break;
+        case 0x9: global.reportCount = unsigned; break;
+        case 0xa: stack.push({ ...global }); break;
+        case 0xb: global = stack.pop() ?? global; break;
+      }
+    } else if (type === ITEM_TYPE_LOCAL) {
+      switch (tag) {
+        case 0x0: local.usages.push(unsigned); break;
+        case 0x1: local.usageMin = unsigned; break;
+        case 0x2: local.usageMax = unsigned; break;
+      }
+    } else if (type === ITEM_TYPE_MAIN) {
+      // Input
+      if (tag === 0x8) {
+        const bitOffset = bitOffsets.get(global.reportId) ?? 0;
+        const constant = (unsigned & 0x01) !== 0;
+        const variable = (unsigned & 0x02) !== 0;
+        const relative = (unsigned & 0x04) !== 0;
+
+        if (!constant && variable) {
+          const usages = expandUsages(local, global.reportCount);
+
+          for (let i = 0; i < global.reportCount; i++) {
+            const usage = usages[Math.min(i, usages.length - 1)] ?? 0;
+            fields.push(createField(global, usage, bitOffset + i * global.reportSize, relative));
+          }
+        }
+
+        bitOffsets.set(global.reportId, bitOffset + global.reportSize * global.reportCount);
+      }
+
+      // Every main item (input, output, feature, collections) clears the locals
+      local = emptyLocal();
+    }
+  }
+
+  return { usesReportIds, fields: nameFields(fields) };
+}
+
+function expandUsages(local: LocalState, count: number): number[] {
+  if (local.usages.length > 0) {
+    return local.usages;
+  }
+
+  if (local.usageMin !== null && local.usageMax !== null) {
+    const usages: number[] = [];
+    for (let usage = local.usageMin; usage <= local.usageMax && usages.length < count; usage++) {
+      usages.push(usage);
+    }
+    return usages;
+  }
+
+  return [];
+}
+
+function createField(global: GlobalState, rawUsage: number, bitOffset: number, relative: boolean): DescriptorField {
+  // A 4-byte usage carries its own page in the upper half
+  const usagePage = rawUsage > 0xffff ? rawUsage >>> 16 : global.usagePage;
+  const usage = rawUsage & 0xffff;
+
+  let kind: DescriptorFieldKind;
+  if (usagePage === USAGE_PAGE_BUTTON || global.reportSize === 1) {
+    kind = 'button';
+  } else if (usagePage === USAGE_PAGE_GENERIC_DESKTOP && usage === USAGE_HAT_SWITCH) {
+    kind = 'hat';
+  } else {
+    kind = 'axis';
+  }
+
+  return {
+    id: '',
+    name: '',
+    kind,
+    reportId: global.reportId,
+    bitOffset,
+    bitSize: global.reportSize,
+    logicalMin: global.logicalMin,
+    logicalMax: global.logicalMax,
+    usagePage,
+    usage,
+    ...(relative && { relative }),
+  };
+}
+
+/**
+ * Give every field a unique control id and a readable name
+ */
+function nameFields(fields: DescriptorField[]): DescriptorField[] {
+  const used = new Map<string, number>();
+
+  return fields.map(field => {
+    let base: string;
+    let name: string;
+
+    if (field.kind === 'button') {
+      base = field.usagePage === USAGE_PAGE_BUTTON ? `button_${field.usage}` : `switch_${field.usage.toString(16)}`;
+      name = field.usagePage === USAGE_PAGE_BUTTON ? `Button ${field.usage}` : `Switch 0x${field.usage.toString(16)}`;
+    } else if (field.kind === 'hat') {
+      base = 'hat';
+      name = 'Hat Switch';
+    } else {
+      const axis = field.usagePage === USAGE_PAGE_GENERIC_DESKTOP ? AXIS_NAMES[field.usage] : undefined;
+      base = axis ?? `axis_${field.usagePage.toString(16)}_${field.usage.toString(16)}`;
+      name = axis ? `${axis.toUpperCase()} Axis` : `Axis 0x${field.usagePage.toString(16)}/0x${field.usage.toString(16)}`;
+    }
+
+    const count = (used.get(base) ?? 0) + 1;
+    used.set(base, count);
+
+    return count === 1
+      ? { ...field, id: base, name }
+      : { ...field, id: `${base}_${count}`, name: `${name} ${count}` };
+  });
+}
+
+/**
+ * Read a field's raw value from a report (without its report ID byte).
+ * Fields are little-endian bit strings; signed ranges are sign-extended.
+ */
+export function readField(report: Buffer, field: DescriptorField): number | null {
+  if (Math.ceil((field.bitOffset + field.bitSize) / 8) > report.length) {
+    return null;
+  }
+
+  let value = 0;
+  for (let i = 0; i < field.bitSize; i++) {
+    const bit = field.bitOffset + i;
+    if ((report[bit >> 3] >> (bit & 7)) & 1) {
+      value += 2 ** i;
+    }
+  }
+
+  if (field.logicalMin < 0 && value >= 2 ** (field.bitSize - 1)) {
+    value -= 2 ** field.bitSize;
+  }
+
+  return value;
+}
@@ -1,12 +1,20 @@
-import type { HIDDevice, ParsedEvent } from '../types/index.js';
+import type { AxisCalibration, ControlInfo, ControlState, HIDDevice, Logger, ParsedEvent } from '../types/index.js';
 import { PXNCB1DetailedParser } from './pxn-cb1-parser.js';
 import { PXNCB1AccurateParser } from './pxn-cb1-accurate-parser.js';
-import { ControlConfigParser } from './control-config-parser.js';
+import { ControlConfigParser, type ControlConfig } from './control-config-parser.js';
+import { DescriptorParser } from './descriptor-parser.js';
+import { diffButtonStates } from './control-events.js';
+import { loadProfiles, matchScore, matchesDevice, type DeviceMatch, type DeviceProfile } from '../profiles/index.js';
 
 export interface EventParser {
   name: string;
   parse: (data: Buffer) => ParsedEvent;
   supportsDevice: (device: HIDDevice) => boolean;
+  getControlStates?: () => Record<string, ControlState>;
+  getControls?: () => ControlInfo[]; // every control the parser can report
+  reset?: () => void; // forget the previous report, e.g. after a reconnect
+  setReportDescriptor?: (descriptor: Buffer) => void; // called with the descriptor once the device is open
+  getAxisRanges?: () => Record<string, AxisCalibration>; // logical range of each axis the parser reports
 }
 
 /**
@@ -15,11 +23,16 @@ export interface EventParser {
  */
 export class ButtonParser implements EventParser {
   name = 'ButtonParser';
+  private lastButtonStates: boolean[] = [];
+
+  constructor(private match?: DeviceMatch) {}
+
+  reset(): void {
+    this.lastButtonStates = [];
+  }
 
   supportsDevice(device: HIDDevice): boolean {
-    // This parser works with most button boxes, but not PXN CB1
-    // PXN CB1 should use the ControlConfigParser
-    return !(device.vendorId === 0x36E6 && device.productId === 0x8001);
+    return matchesDevice(this.match, device);
   }
 
   parse(data: Buffer): ParsedEvent {
@@ -45,9 +58,13 @@ export class ButtonParser implements EventParser {
       }
     }
 
+    const controlEvents = diffButtonStates(this.lastButtonStates, buttonStates, timestamp, 'button-box');
+    this.lastButtonStates = buttonStates;
+
     return {
       timestamp,
       buttonStates,
+      controlEvents,
       rawData: data,
       deviceId: 'button-box',
     };
@@ -60,10 +77,16 @@ export class ButtonParser implements EventParser {
  */
 export class PXNCB1Parser implements EventParser {
   name = 'PXNCB1Parser';
+  private lastButtonStates: boolean[] = [];
+
+  constructor(private match?: DeviceMatch) {}
+
+  reset(): void {
+    this.lastButtonStates = [];
+  }
 
   supportsDevice(device: HIDDevice): boolean {
-    // PXN CB1 vendor/product IDs
-    return device.vendorId === 0x36E6 && device.productId === 0x8001;
+    return matchesDevice(this.match, device);
   }
 
   parse(data: Buffer): ParsedEvent {
@@ -82,44 +105,99 @@ export class PXNCB1Parser implements EventParser {
       }
     }
 
+    const controlEvents = diffButtonStates(this.lastButtonStates, buttonStates, timestamp, 'pxn-cb1');
+    this.lastButtonStates = buttonStates;
+
     return {
       timestamp,
       buttonStates,
+      controlEvents,
       rawData: data,
       deviceId: 'pxn-cb1',
     };
   }
 }
 
+export interface ParserOptions {
+  profile?: DeviceProfile | null;
+  controls?: string; // overrides the profile's control definitions
+  logger?: Logger; // for what the parser learns about the device
+}
+
+/**
+ * Parsers keep the previous report, so every device gets its own instance
+ */
+export type ParserFactory = (options: ParserOptions) => EventParser;
+
 /**
- * Parser registry for managing multiple parsers
+ * Parser registry: picks the device profile that matches a device most
+ * specifically and creates the parser the profile names
  */
 export class ParserRegistry {
-  private parsers: EventParser[] = [];
-
-  constructor() {
-    // Register parsers in order of specificity
-    // ControlConfigParser should be first for PXN CB1 devices
-    this.register(new ControlConfigParser()); // Use the new config-based parser
-    this.register(new PXNCB1AccurateParser()); // Use the accurate parser
-    this.register(new PXNCB1DetailedParser()); // Keep as fallback
-    this.register(new ButtonParser()); // Generic fallback for other devices
+  private factories = new Map<string, ParserFactory>();
+
+  constructor(private profiles: DeviceProfile[] = loadProfiles()) {
+    this.register('ControlConfigParser', ({ profile, controls }) =>
+      new ControlConfigParser(
+        (controls ?? profile?.controls ?? 'config-controls.json') as string | ControlConfig,
+        { ...(profile && { match: profile.match }), ...(profile?.report && { report: profile.report }) }
+      )
+    );
+    this.register('PXNCB1AccurateParser', ({ profile }) => new PXNCB1AccurateParser(profile?.match));
+    this.register('PXNCB1DetailedParser', ({ profile }) => new PXNCB1DetailedParser(profile?.match));
+    this.register('PXNCB1Parser', ({ profile }) => new PXNCB1Parser(profile?.match));
+    this.register('DescriptorParser', ({ profile, logger }) => new DescriptorParser(profile?.match, profile?.layout, logger));
+    this.register('ButtonParser', ({ profile }) => new ButtonParser(profile?.match));
   }
 
-  register(parser: EventParser): void {
-    this.parsers.push(parser);
+  register(name: string, factory: ParserFactory): void {
+    this.factories.set(name, factory);
   }
 
-  getParserForDevice(device: HIDDevice): EventParser | null {
-    for (const parser of this.parsers) {
-      if (parser.supportsDevice(device)) {
-        return parser;
+  registerProfile(profile: DeviceProfile): void {
+    this.profiles.push(profile);
+  }
+
+  /**
+   * The profile named `name`, or else the one matching the device on the
+   * most fields. Ties go to the profile loaded first.
+   */
+  selectProfile(device: Partial<HIDDevice>, name?: string): DeviceProfile | null {
+    if (name) {
+      const profile = this.profiles.find(candidate => candidate.name === name);
+      if (!profile) {
+        throw new Error(`Unknown device profile: ${name}`);
       }
+      return profile;
     }
-    return null;
+
+    let best: DeviceProfile | null = null;
+    let bestScore = -1;
+
+    for (const profile of this.profiles) {
+      const score = matchScore(profile.match, device);
+      if (score > bestScore) {
+        best = profile;
+        bestScore = score;
+      }
+    }
+
+    return best;
   }
 
-  getAllParsers(): EventParser[] {
-    return [...this.parsers];
+  createParser(name: string, options: ParserOptions = {}): EventParser {
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown parser: ${name}`);
+    }
+    return factory(options);
+  }
+
+  getProfiles(): DeviceProfile[] {
+    return [...this.profiles];
   }
-} 
\ No newline at end of file
+
+  getParserNames(): string[] {
+    return [...this.factories.keys()];
+  }
+}
@@ -1,4 +1,10 @@
-import type { EventParser, HIDDevice, ParsedEvent } from '../types/index.js';
+import type { ControlEvent, EventParser, HIDDevice, ParsedEvent } from '../types/index.js';
+import { createControlEvent } from './control-events.js';
+import { RotaryEncoder, type EncoderSettings } from './encoder.js';
+import { matchesDevice, type DeviceMatch } from '../profiles/index.js';
+
+// Knob values count detents and wrap like an 8-bit counter
+const KNOB_RANGE: EncoderSettings = { min: 0, max: 255, initial: 0, mode: 'wrap' };
 
 export interface PXNCB1AccurateEvent extends ParsedEvent {
   buttons: {
@@ -22,9 +28,23 @@ export interface PXNCB1AccurateEvent extends ParsedEvent {
 
 export class PXNCB1AccurateParser implements EventParser {
   name = 'PXNCB1AccurateParser';
+  private previousControl: PXNCB1AccurateEvent | null = null;
+  private lastPulseByte = 0;
+  private knobEncoders: Record<string, RotaryEncoder> = {
+    knob_1: new RotaryEncoder(KNOB_RANGE),
+    knob_2: new RotaryEncoder(KNOB_RANGE),
+  };
+
+  constructor(private match?: DeviceMatch) {}
+
+  reset(): void {
+    this.previousControl = null;
+    this.lastPulseByte = 0;
+    Object.values(this.knobEncoders).forEach(encoder => encoder.reset());
+  }
 
   supportsDevice(device: HIDDevice): boolean {
-    return device.vendorId === 0x36E6 && device.productId === 0x8001;
+    return matchesDevice(this.match, device);
   }
 
   parse(data: Buffer): PXNCB1AccurateEvent {
@@ -33,6 +53,7 @@ export class PXNCB1AccurateParser implements EventParser {
     const event: PXNCB1AccurateEvent = {
       timestamp,
       buttonStates: [],
+      controlEvents: [],
       rawData: data,
       deviceId: 'pxn-cb1',
       buttons: {},
@@ -81,10 +102,54 @@ export class PXNCB1AccurateParser implements EventParser {
     // Parse switches and knobs from byte 3
     this.parseSwitchesAndKnobs(knobSwitchByte, knobClickByte, event);
 
+    // Compare against the previous control packet
+    if (this.previousControl) {
+      event.controlEvents = this.diffControls(this.previousControl, event);
+    }
+    this.previousControl = event;
+
     // Log the event details
     this.logEventDetails(event);
   }
 
+  private diffControls(previous: PXNCB1AccurateEvent, current: PXNCB1AccurateEvent): ControlEvent[] {
+    const events: ControlEvent[] = [];
+    const { timestamp, deviceId } = current;
+
+    for (const [name, pressed] of Object.entries(current.buttons)) {
+      const before = previous.buttons[name] ?? false;
+      if (before !== pressed) {
+        events.push(createControlEvent(name, 'momentary', before, pressed, timestamp, deviceId));
+      }
+    }
+
+    for (const [name, state] of Object.entries(current.switches)) {
+      const before = previous.switches[name] ?? 0;
+      if (before !== state) {
+        const kind = name === 'on_off_switch' ? 'toggle' : 'three-way';
+        events.push(createControlEvent(name, kind, before, state, timestamp, deviceId));
+      }
+    }
+
+    for (const [name, knob] of Object.entries(current.knobs)) {
+      const before = previous.knobs[name]?.pressed ?? false;
+      if (before !== knob.pressed) {
+        events.push(createControlEvent(`${name}.click`, 'momentary', before, knob.pressed, timestamp, deviceId));
+      }
+
+      const previousValue = previous.knobs[name]?.value ?? 0;
+      if (previousValue !== knob.value) {
+        events.push({
+          ...createControlEvent(name, 'encoder', previousValue, knob.value, timestamp, deviceId),
+          // Shortest way round the wrapping 0-255 counter
+          delta: ((knob.value - previousValue + 384) % 256) - 128,
+        });
+      }
+    }
+
+    return events;
+  }
+
   private parseStatusPacket(data: Buffer, _event: PXNCB1AccurateEvent): void {
     // This is the 64-byte status packet - mostly static data
     // We might find joystick data here, but it's not obvious yet
@@ -137,15 +202,18 @@ export class PXNCB1AccurateParser implements EventParser {
     const knob1Click = (clickByte & 0x01) !== 0;
     const knob2Click = (clickByte & 0x02) !== 0;
     
+    // Knob rotation arrives as one pulse per detent in bits 4-7 of
+    // switchByte (knob 1 up/down = 0x20/0x10, knob 2 up/down = 0x80/0x40)
     event.knobs['knob_1'] = {
-      value: 0, // We'll need to track this from status packets
+      value: this.turnKnob('knob_1', switchByte, 0x20, 0x10, event.timestamp),
       pressed: knob1Click
     };
     
     event.knobs['knob_2'] = {
-      value: 0, // We'll need to track this from status packets
+      value: this.turnKnob('knob_2', switchByte, 0x80, 0x40, event.timestamp),
       pressed: knob2Click
     };
+    this.lastPulseByte = switchByte;
 
     // Additional switches (bits 2-7)
     const switch3 = (clickByte >> 2) & 0x03;
@@ -155,6 +223,16 @@ export class PXNCB1AccurateParser implements EventParser {
     event.switches['toggle_switch_4'] = switch4;
   }
 
+  private turnKnob(name: string, pulseByte: number, upMask: number, downMask: number, timestamp: number): number {
+    const encoder = this.knobEncoders[name];
+    const rising = pulseByte & ~this.lastPulseByte;
+
+    if (rising & upMask) encoder.turn(1, timestamp);
+    if (rising & downMask) encoder.turn(-1, timestamp);
+
+    return encoder.getValue() ?? 0;
+  }
+
   private logEventDetails(event: PXNCB1AccurateEvent): void {
     console.log('\n=== PXN CB1 Accurate Event ===');
     console.log(`Timestamp: ${new Date(event.timestamp).toISOString()}`);
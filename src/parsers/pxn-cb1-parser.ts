@@ -1,4 +1,6 @@
 import type { EventParser, HIDDevice, ParsedEvent } from '../types/index.js';
+import { diffButtonStates } from './control-events.js';
+import { matchesDevice, type DeviceMatch } from '../profiles/index.js';
 
 export interface PXNCB1Event extends ParsedEvent {
   buttons: {
@@ -21,9 +23,16 @@ export interface PXNCB1Event extends ParsedEvent {
 
 export class PXNCB1Parser implements EventParser {
   name = 'PXNCB1Parser';
+  private lastButtonStates: boolean[] = [];
+
+  constructor(private match?: DeviceMatch) {}
+
+  reset(): void {
+    this.lastButtonStates = [];
+  }
 
   supportsDevice(device: HIDDevice): boolean {
-    return device.vendorId === 0x36E6 && device.productId === 0x8001;
+    return matchesDevice(this.match, device);
   }
 
   parse(data: Buffer): PXNCB1Event {
@@ -33,6 +42,7 @@ export class PXNCB1Parser implements EventParser {
     const event: PXNCB1Event = {
       timestamp,
       buttonStates: [],
+      controlEvents: [],
       rawData: data,
       deviceId: 'pxn-cb1',
       buttons: {},
@@ -61,6 +71,9 @@ export class PXNCB1Parser implements EventParser {
       this.parseKnobs(data, event);
     }
 
+    event.controlEvents = diffButtonStates(this.lastButtonStates, event.buttonStates, timestamp, 'pxn-cb1');
+    this.lastButtonStates = event.buttonStates;
+
     return event;
   }
 
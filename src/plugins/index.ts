@@ -0,0 +1,224 @@
+import { readdirSync } from 'node:fs';
+import { basename, extname, isAbsolute, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { ActionRunner, Logger, PluginsConfig } from '../types/index.js';
+import type { ActionRegistry } from '../actions/index.js';
+import type { ParserFactory, ParserRegistry } from '../parsers/index.js';
+import { ScopedLogger } from '../utils/logger.js';
+
+const DEFAULT_DIR = 'plugins';
+const INIT_TIMEOUT_MS = 10000;
+
+// Running from source (tsx) can load TypeScript plugins too
+const EXTENSIONS = import.meta.url.endsWith('.ts')
+  ? ['.js', '.mjs', '.cjs', '.ts', '.mts']
+  : ['.js', '.mjs', '.cjs'];
+
+/**
+ * What a plugin module exports, as its default export or as named exports
+ */
+export interface Plugin {
+  name?: string; // defaults to the file name
+  runners?: ActionRunner[];
+  parsers?: Record<string, ParserFactory>;
+  init?(context: PluginContext): void | Promise<void>;
+  stop?(): void | Promise<void>;
+}
+
+/**
+ * Given to a plugin's init(). Runners and parsers registered here are only
+ * added once init() succeeds.
+ */
+export interface PluginContext {
+  name: string;
+  logger: Logger;
+  config: Record<string, unknown>; // plugins.config.<name>
+  registerRunner(runner: ActionRunner): void;
+  registerParser(name: string, factory: ParserFactory): void;
+}
+
+interface LoadedPlugin {
+  name: string;
+  source: string;
+  plugin: Plugin;
+}
+
+/**
+ * Loads plugin modules that add action runners and parsers: every module in
+ * `plugins.dir`, in file name order, then the `plugins.modules` list. A
+ * plugin that fails to load, is malformed or throws in init() is logged and
+ * skipped; the monitor starts without it.
+ */
+export class PluginManager {
+  private loaded: LoadedPlugin[] = [];
+
+  constructor(
+    private config: PluginsConfig,
+    private logger: Logger,
+    private actionRegistry: ActionRegistry,
+    private parserRegistry: ParserRegistry
+  ) {}
+
+  async load(): Promise<void> {
+    for (const source of [...this.discover(), ...(this.config.modules ?? [])]) {
+      try {
+        await this.loadPlugin(source);
+      } catch (error) {
+        this.logger.error(`Skipping plugin ${source}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    if (this.loaded.length > 0) {
+      this.logger.info(`Loaded ${this.loaded.length} plugin(s): ${this.getLoaded().join(', ')}`);
+    }
+  }
+
+  /**
+   * Stop the plugins in reverse load order
+   */
+  async stop(): Promise<void> {
+    for (const { name, plugin } of [...this.loaded].reverse()) {
+      try {
+        await plugin.stop?.();
+      } catch (error) {
+        this.logger.warn(`Plugin ${name} failed to stop:`, error);
+      }
+    }
+    this.loaded = [];
+  }
+
+  getLoaded(): string[] {
+    return this.loaded.map(({ name }) => name);
+  }
+
+  /**
+   * Plugin files in the plugins directory. A missing default directory is
+   * not worth a warning; a configured one is.
+   */
+  private discover(): string[] {
+    const directory = this.config.dir ?? DEFAULT_DIR;
+
+    try {
+      return readdirSync(directory)
+        .filter(file => EXTENSIONS.includes(extname(file)) && !file.endsWith('.d.ts'))
+        .sort()
+        .map(file => resolve(directory, file));
+    } catch (error) {
+      if (this.config.dir !== undefined || (error as { code?: string }).code !== 'ENOENT') {
+        this.logger.warn(`Failed to read plugins directory ${directory}: ${error}`);
+      }
+      return [];
+    }
+  }
+
+  private async loadPlugin(source: string): Promise<void> {
+    // Paths are relative to the working directory, anything else is a package
+    const isPath = source.startsWith('.') || isAbsolute(source);
+    const specifier = isPath ? pathToFileURL(resolve(source)).href : source;
+
+    const module = await import(specifier) as Record<string, unknown>;
+    const plugin = (module.default ?? module) as Plugin;
+    const name = checkPlugin(plugin, source);
+
+    if (this.loaded.some(loaded => loaded.name === name)) {
+      throw new Error(`a plugin named ${name} is already loaded`);
+    }
+
+    const runners = [...(plugin.runners ?? [])];
+    const parsers = Object.entries(plugin.parsers ?? {});
+
+    if (plugin.init) {
+      const context: PluginContext = {
+        name,
+        logger: new ScopedLogger(this.logger, `plugin:${name}`),
+        config: this.config.config?.[name] ?? {},
+        registerRunner: runner => {
+          checkRunner(runner);
+          runners.push(runner);
+        },
+        registerParser: (parserName, factory) => {
+          if (typeof factory !== 'function') {
+            throw new Error(`parser ${parserName} is not a function`);
+          }
+          parsers.push([parserName, factory]);
+        },
+      };
+
+      await withTimeout(Promise.resolve().then(() => plugin.init?.(context)), INIT_TIMEOUT_MS, `init() took longer than ${INIT_TIMEOUT_MS}ms`);
+    }
+
+    for (const runner of runners) {
+      if (this.actionRegistry.getRunner(runner.type)) {
+        this.logger.warn(`Plugin ${name} replaces the runner for "${runner.type}" actions`);
+      }
+      this.actionRegistry.register(runner);
+    }
+
+    for (const [parserName, factory] of parsers) {
+      if (this.parserRegistry.getParserNames().includes(parserName)) {
+        this.logger.warn(`Plugin ${name} replaces the ${parserName} parser`);
+      }
+      this.parserRegistry.register(parserName, factory);
+    }
+
+    this.loaded.push({ name, source, plugin });
+    this.logger.info(`Plugin ${name} loaded from ${source}` +
+      (runners.length > 0 ? `, actions: ${runners.map(runner => runner.type).join(', ')}` : '') +
+      (parsers.length > 0 ? `, parsers: ${parsers.map(([parserName]) => parserName).join(', ')}` : ''));
+  }
+}
+
+/**
+ * Check a module's export is a plugin, returning its name
+ */
+function checkPlugin(plugin: Plugin, source: string): string {
+  if (typeof plugin !== 'object' || plugin === null) {
+    throw new Error('the module does not export a plugin');
+  }
+  if (plugin.name !== undefined && (typeof plugin.name !== 'string' || plugin.name === '')) {
+    throw new Error('"name" must be a non-empty string');
+  }
+  if (plugin.runners !== undefined && !Array.isArray(plugin.runners)) {
+    throw new Error('"runners" must be a list');
+  }
+  if (plugin.parsers !== undefined && (typeof plugin.parsers !== 'object' || plugin.parsers === null)) {
+    throw new Error('"parsers" must map parser names to factories');
+  }
+  for (const [parserName, factory] of Object.entries(plugin.parsers ?? {})) {
+    if (typeof factory !== 'function') {
+      throw new Error(`parser ${parserName} is not a function`);
+    }
+  }
+  for (const key of ['init', 'stop'] as const) {
+    if (plugin[key] !== undefined && typeof plugin[key] !== 'function') {
+      throw new Error(`"${key}" must be a function`);
+    }
+  }
+  (plugin.runners ?? []).forEach(checkRunner);
+
+  if (!plugin.runners?.length && !plugin.parsers && !plugin.init) {
+    throw new Error('the module exports no runners, parsers or init()');
+  }
+
+  return plugin.name ?? basename(source, extname(source));
+}
+
+function checkRunner(runner: ActionRunner): void {
+  if (typeof runner !== 'object' || runner === null) {
+    throw new Error('a runner must be an object');
+  }
+  if (typeof runner.type !== 'string' || runner.type === '') {
+    throw new Error('a runner needs a "type"');
+  }
+  if (typeof runner.execute !== 'function') {
+    throw new Error(`the ${runner.type} runner needs an execute() function`);
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,124 @@
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import type { ActionMapping, AxisCalibration, AxisConfig, HIDDevice } from '../types/index.js';
+import type { DescriptorLayout } from '../parsers/hid-descriptor.js';
+
+/**
+ * Which devices a profile applies to. Every field that is set must match;
+ * the more fields a profile sets, the more specific it is.
+ */
+export interface DeviceMatch {
+  vendorId?: number;
+  productId?: number;
+  usagePage?: number;
+  usage?: number;
+  interface?: number;
+  product?: string;
+}
+
+/**
+ * Shape of the input reports. Reports of another length, or with another
+ * report ID in the first byte, carry no control data.
+ */
+export interface ReportLayout {
+  length?: number;
+  reportId?: number;
+}
+
+/**
+ * Everything needed to support a device without writing TypeScript
+ */
+export interface DeviceProfile {
+  name: string;
+  description?: string;
+  match: DeviceMatch;
+  parser: string; // registered parser that decodes the reports
+  report?: ReportLayout;
+  controls?: string | Record<string, unknown>; // control definitions, inline or a path
+  layout?: DescriptorLayout; // report fields, for DescriptorParser
+  actions?: ActionMapping; // default bindings, overridden by the config
+  axes?: Record<string, AxisConfig>; // axis calibration and settings, overridden by the config
+  file?: string;
+}
+
+const MATCH_FIELDS: Array<keyof DeviceMatch> = ['vendorId', 'productId', 'usagePage', 'usage', 'interface', 'product'];
+
+/**
+ * How specifically a profile matches a device: the number of matching
+ * fields, or -1 if any field differs. Fields the device doesn't report
+ * (e.g. the interface before it is enumerated) neither count nor reject.
+ */
+export function matchScore(match: DeviceMatch, device: Partial<HIDDevice>): number {
+  let score = 0;
+
+  for (const field of MATCH_FIELDS) {
+    const expected = match[field];
+    const actual = device[field];
+
+    if (expected === undefined || actual === undefined) continue;
+    if (expected !== actual) return -1;
+    score++;
+  }
+
+  return score;
+}
+
+/**
+ * Whether a device matches, treating a missing match as "any device"
+ */
+export function matchesDevice(match: DeviceMatch | undefined, device: Partial<HIDDevice>): boolean {
+  return !match || matchScore(match, device) >= 0;
+}
+
+/**
+ * Load every `*.json` profile in a directory, in file name order. Control
+ * definition paths are resolved relative to the profile file.
+ */
+export function loadProfiles(directory: string = 'profiles'): DeviceProfile[] {
+  let files: string[];
+  try {
+    files = readdirSync(directory).filter(file => file.endsWith('.json')).sort();
+  } catch (error) {
+    console.warn(`Failed to read profiles directory ${directory}: ${error}`);
+    return [];
+  }
+
+  const profiles: DeviceProfile[] = [];
+
+  for (const file of files) {
+    const path = join(directory, file);
+
+    try {
+      const profile = JSON.parse(readFileSync(path, 'utf8')) as DeviceProfile;
+
+      if (!profile.name || !profile.parser || typeof profile.match !== 'object') {
+        throw new Error('a profile needs a name, a parser and a match');
+      }
+
+      if (typeof profile.controls === 'string') {
+        profile.controls = resolve(dirname(path), profile.controls);
+      }
+
+      profiles.push({ ...profile, file: path });
+    } catch (error) {
+      console.warn(`Skipping profile ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return profiles;
+}
+
+/**
+ * Store axis calibration in a profile file, keeping the rest of each axis'
+ * settings. Axes calibrated without a center are marked as not centered.
+ */
+export function saveProfileCalibration(file: string, calibrations: Record<string, AxisCalibration>): void {
+  const profile = JSON.parse(readFileSync(file, 'utf8')) as DeviceProfile;
+  const axes = profile.axes ?? {};
+
+  for (const [id, calibration] of Object.entries(calibrations)) {
+    axes[id] = { ...axes[id], calibration, centered: calibration.center !== undefined };
+  }
+
+  writeFileSync(file, JSON.stringify({ ...profile, axes }, null, 2) + '\n');
+}
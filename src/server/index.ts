@@ -0,0 +1,341 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { isIP } from 'node:net';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { ControlEvent, ControlState, Logger, MonitorStatus, ServerConfig, VirtualInput } from '../types/index.js';
+import type { DeviceObserver, HIDDeviceManager } from '../hid/device-manager.js';
+
+const DEFAULT_PORT = 8080;
+const DEFAULT_HOST = '127.0.0.1';
+const MAX_BODY = 64 * 1024;
+
+const VIRTUAL_ACTIONS = ['press', 'release', 'tap', 'change'];
+const LOCAL_NAMES = ['localhost'];
+
+/**
+ * A client request that can't be served, answered with its status
+ */
+class RequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Check an injection request from a client. `deviceId` may be left out
+ * with a single device.
+ */
+function parseVirtualInput(body: unknown): VirtualInput & { deviceId?: string } {
+  if (typeof body !== 'object' || body === null) {
+    throw new RequestError(400, 'expected a JSON object');
+  }
+
+  const { deviceId, controlId, action, state, delta } = body as Record<string, unknown>;
+
+  if (deviceId !== undefined && typeof deviceId !== 'string') {
+    throw new RequestError(400, '"deviceId" must be a string');
+  }
+  if (typeof controlId !== 'string' || controlId === '') {
+    throw new RequestError(400, '"controlId" must be a non-empty string');
+  }
+  if (action !== undefined && !VIRTUAL_ACTIONS.includes(action as string)) {
+    throw new RequestError(400, `"action" must be one of ${VIRTUAL_ACTIONS.join(', ')}`);
+  }
+  if (state !== undefined && state !== null && !['boolean', 'number', 'string'].includes(typeof state)) {
+    throw new RequestError(400, '"state" must be a boolean, number, string or null');
+  }
+  if (delta !== undefined && typeof delta !== 'number') {
+    throw new RequestError(400, '"delta" must be a number');
+  }
+
+  return {
+    controlId,
+    ...(deviceId !== undefined && { deviceId }),
+    ...(action !== undefined && { action: action as NonNullable<VirtualInput['action']> }),
+    ...(state !== undefined && { state: state as ControlState }),
+    ...(delta !== undefined && { delta }),
+  };
+}
+
+/**
+ * Optional HTTP and WebSocket server for dashboards and stream overlays.
+ *
+ * - `GET /api/status`: the monitor status with every control's position
+ * - `POST /api/inject`: a virtual press or change, see `VirtualInput`
+ * - `/events` (WebSocket): a `status` message on connect, then `control`,
+ *   `connection` and `states` messages as they happen. Clients can send
+ *   `{ "type": "inject", ... }` to inject input too.
+ *
+ * Injected input goes through the same layers, triggers and bindings as the
+ * device's own reports.
+ */
+export class EventServer implements DeviceObserver {
+  private server: Server | null = null;
+  private sockets: WebSocketServer | null = null;
+  private devices = new Map<string, HIDDeviceManager>();
+
+  constructor(
+    private config: ServerConfig,
+    private logger: Logger,
+    private getStatus: () => MonitorStatus
+  ) {}
+
+  attach(device: HIDDeviceManager): void {
+    this.devices.set(device.deviceId, device);
+    device.addObserver(this);
+  }
+
+  async start(): Promise<void> {
+    const port = this.config.port ?? DEFAULT_PORT;
+    const host = this.config.host ?? DEFAULT_HOST;
+
+    this.server = createServer((request, response) => {
+      this.handleRequest(request, response).catch(error => {
+        const status = error instanceof RequestError ? error.status : 500;
+        if (status === 500) this.logger.error('Event server request failed:', error);
+        this.sendJson(response, status, { error: error instanceof Error ? error.message : String(error) });
+      });
+    });
+
+    this.sockets = new WebSocketServer({ noServer: true });
+    this.sockets.on('connection', socket => this.handleSocket(socket));
+
+    this.server.on('upgrade', (request, socket, head) => {
+      const url = new URL(request.url ?? '/', 'http://localhost');
+      if (url.pathname !== '/events') {
+        socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+        return;
+      }
+      if (!this.isAllowedHost(request) || !this.isAllowedOrigin(request)) {
+        socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+        return;
+      }
+      if (!this.isAuthorized(request, url)) {
+        socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        return;
+      }
+      this.sockets?.handleUpgrade(request, socket, head, ws => this.sockets?.emit('connection', ws, request));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server?.once('error', reject);
+      this.server?.listen(port, host, () => {
+        this.server?.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.logger.info(`Event server listening on http://${host}:${port}`);
+  }
+
+  async stop(): Promise<void> {
+    this.sockets?.clients.forEach(socket => socket.close(1001, 'Server stopping'));
+    this.sockets?.close();
+    this.sockets = null;
+
+    if (this.server) {
+      this.server.closeAllConnections();
+      await new Promise<void>(resolve => this.server?.close(() => resolve()));
+      this.server = null;
+      this.logger.info('Event server stopped');
+    }
+  }
+
+  connectionChanged(device: HIDDeviceManager, connected: boolean): void {
+    this.broadcast({ type: 'connection', deviceId: device.deviceId, connected });
+  }
+
+  statesReady(device: HIDDeviceManager): void {
+    this.broadcast({ type: 'states', deviceId: device.deviceId, controls: device.getControlStates() });
+  }
+
+  controlEvent(device: HIDDeviceManager, event: ControlEvent): void {
+    this.broadcast({ type: 'control', deviceId: device.deviceId, event });
+  }
+
+  /**
+   * The monitor status, each device with the position of every control
+   */
+  private snapshot(): Record<string, unknown> {
+    const status = this.getStatus();
+
+    return {
+      ...status,
+      devices: status.devices.map(device => {
+        const manager = this.devices.get(device.id);
+        return {
+          ...device,
+          name: manager?.getName() ?? device.id,
+          controls: manager?.getControlStates() ?? {},
+        };
+      }),
+    };
+  }
+
+  private async handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    if (!this.isAllowedHost(request)) {
+      throw new RequestError(403, `host not allowed: ${request.headers.host}`);
+    }
+    if (!this.isAllowedOrigin(request)) {
+      throw new RequestError(403, `origin not allowed: ${request.headers.origin}`);
+    }
+    if (!this.isAuthorized(request, url)) {
+      throw new RequestError(401, 'unauthorized');
+    }
+
+    if (url.pathname === '/api/status' && request.method === 'GET') {
+      this.sendJson(response, 200, this.snapshot());
+    } else if (url.pathname === '/api/inject' && request.method === 'POST') {
+      // A form or `text/plain` POST from any web page needs no preflight;
+      // requiring JSON means a browser has to ask first, and is refused
+      if (request.headers['content-type']?.split(';')[0]?.trim().toLowerCase() !== 'application/json') {
+        throw new RequestError(415, 'content-type must be application/json');
+      }
+      const events = this.inject(parseVirtualInput(await this.readJson(request)));
+      this.sendJson(response, 202, { events });
+    } else if (url.pathname === '/api/status' || url.pathname === '/api/inject') {
+      throw new RequestError(405, `${request.method} not allowed on ${url.pathname}`);
+    } else {
+      throw new RequestError(404, `no such endpoint: ${url.pathname}`);
+    }
+  }
+
+  private handleSocket(socket: WebSocket): void {
+    this.logger.debug(`Event stream client connected (${this.sockets?.clients.size ?? 0} total)`);
+    socket.send(JSON.stringify({ type: 'status', status: this.snapshot() }));
+
+    socket.on('message', data => {
+      try {
+        const message = JSON.parse(data.toString());
+        if (message?.type !== 'inject') {
+          throw new RequestError(400, `unknown message type: ${message?.type}`);
+        }
+        socket.send(JSON.stringify({ type: 'injected', events: this.inject(parseVirtualInput(message)) }));
+      } catch (error) {
+        socket.send(JSON.stringify({ type: 'error', message: error instanceof Error ? error.message : String(error) }));
+      }
+    });
+
+    socket.on('error', error => this.logger.debug('Event stream client error:', error));
+  }
+
+  private inject(input: VirtualInput & { deviceId?: string }): ControlEvent[] {
+    if (!this.injectEnabled()) {
+      throw new RequestError(403, 'injection is disabled: set a "token" or "inject": true');
+    }
+
+    const { deviceId, ...virtualInput } = input;
+    const device = deviceId !== undefined
+      ? this.devices.get(deviceId)
+      : this.devices.size === 1 ? [...this.devices.values()][0] : undefined;
+
+    if (!device) {
+      throw new RequestError(404, deviceId ? `unknown device: ${deviceId}` : '"deviceId" is needed with several devices');
+    }
+
+    try {
+      return device.inject(virtualInput);
+    } catch (error) {
+      throw new RequestError(400, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private broadcast(message: Record<string, unknown>): void {
+    if (!this.sockets || this.sockets.clients.size === 0) return;
+
+    const data = JSON.stringify(message);
+    for (const socket of this.sockets.clients) {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(data);
+      }
+    }
+  }
+
+  /**
+   * Virtual input can fire shell actions, so it stays off on an open server
+   * unless asked for
+   */
+  private injectEnabled(): boolean {
+    return this.config.inject ?? Boolean(this.config.token);
+  }
+
+  /**
+   * A page on an attacker's domain can point that name at this machine (DNS
+   * rebinding) and so count as the server's own origin. Only IP addresses,
+   * localhost, the configured host and the names in `hosts` are served.
+   */
+  private isAllowedHost(request: IncomingMessage): boolean {
+    const { host } = request.headers;
+    if (host === undefined) return true;
+
+    let hostname: string;
+    try {
+      hostname = new URL(`http://${host}`).hostname.toLowerCase();
+    } catch {
+      return false;
+    }
+
+    const names = [...LOCAL_NAMES, this.config.host ?? DEFAULT_HOST, ...(this.config.hosts ?? [])]
+      .map(name => name.toLowerCase());
+    return isIP(hostname.replace(/^\[(.*)\]$/, '$1')) !== 0 || names.includes(hostname);
+  }
+
+  /**
+   * Browsers send an `Origin`; other clients don't. A page is allowed from
+   * the server itself or an origin in `origins`.
+   */
+  private isAllowedOrigin(request: IncomingMessage): boolean {
+    const { origin } = request.headers;
+    if (origin === undefined) return true;
+
+    const origins = this.config.origins ?? [];
+    if (origins.includes('*') || origins.includes(origin)) return true;
+
+    try {
+      return new URL(origin).host === request.headers.host;
+    } catch {
+      return false;
+    }
+  }
+
+  private isAuthorized(request: IncomingMessage, url: URL): boolean {
+    const { token } = this.config;
+    if (!token) return true;
+
+    return request.headers.authorization === `Bearer ${token}` || url.searchParams.get('token') === token;
+  }
+
+  private readJson(request: IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+
+      request.on('data', (chunk: Buffer) => {
+        body += chunk.toString();
+        if (body.length > MAX_BODY) {
+          reject(new RequestError(413, 'request body too large'));
+          request.destroy();
+        }
+      });
+
+      request.on('end', () => {
+        try {
+          resolve(body ? JSON.parse(body) : {});
+        } catch {
+          reject(new RequestError(400, 'request body is not valid JSON'));
+        }
+      });
+
+      request.on('error', reject);
+    });
+  }
+
+  private sendJson(response: ServerResponse, status: number, body: unknown): void {
+    if (response.headersSent) return;
+    response.writeHead(status, { 'content-type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+}
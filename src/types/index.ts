@@ -11,38 +11,503 @@ export interface HIDDevice {
   usage?: number;
 }
 
+export type ControlKind = 'momentary' | 'toggle' | 'three-way' | 'encoder' | 'hat' | 'axis';
+
+export type ControlEventType = 'press' | 'release' | 'change';
+
+export type ControlState = boolean | number | string | null;
+
+/**
+ * A single control changing state. Binary controls produce press/release,
+ * multi-position controls (three-way switches, hats) produce change.
+ */
+export interface ControlEvent {
+  controlId: string;
+  kind: ControlKind;
+  type: ControlEventType;
+  previousState: ControlState;
+  state: ControlState;
+  timestamp: number;
+  deviceId: string;
+  delta?: number; // encoder steps for this detent, after acceleration
+  raw?: number; // axis reading before calibration, when `state` is normalized
+  virtual?: boolean; // injected rather than reported by the device
+}
+
+/**
+ * A control a parser knows about before it has reported anything, e.g. for
+ * publishing Home Assistant entities
+ */
+export interface ControlInfo {
+  id: string;
+  name: string;
+  kind: ControlKind;
+  positions?: string[]; // for three-way switches and hats
+}
+
+/**
+ * A press or position change injected without the device, e.g. from the
+ * event server. `tap` presses and releases; `change` sets `state`.
+ */
+export interface VirtualInput {
+  controlId: string;
+  action?: 'press' | 'release' | 'tap' | 'change'; // defaults to tap
+  state?: ControlState;
+  delta?: number; // for encoders
+}
+
 export interface ParsedEvent {
   timestamp: number;
   buttonStates: boolean[];
+  controlEvents: ControlEvent[];
   rawData: Buffer;
   deviceId: string;
 }
 
+/**
+ * Gesture timings in milliseconds
+ */
+export interface GestureConfig {
+  doubleTapWindow?: number;
+  longPressThreshold?: number;
+  repeatDelay?: number;
+  repeatRate?: number;
+}
+
+/**
+ * Built-in action types. Runners are registered by `type`, so plugins can
+ * add their own.
+ */
+export interface LogAction {
+  type: 'log';
+  message?: string;
+}
+
+export interface ShellAction {
+  type: 'shell';
+  command: string;
+  args?: string[]; // argv, passed as is without a shell
+  shell?: boolean; // run `command` as a shell command line instead
+  id?: string; // name to cancel it by, defaults to the binding id
+  cwd?: string;
+  env?: Record<string, string>; // added to the inherited environment
+  timeout?: number; // ms before it is killed
+  killSignal?: string; // sent on timeout or cancel, defaults to SIGTERM
+  killGrace?: number; // ms before SIGKILL follows, defaults to 2000
+  maxOutput?: number; // bytes of stdout and of stderr kept, defaults to 64 KiB
+}
+
+export interface HttpAction {
+  type: 'http';
+  url: string; // url, header values and body strings are `{{field}}` templates
+  method?: string; // defaults to POST with a body, GET without
+  headers?: Record<string, string>;
+  body?: unknown; // sent as JSON unless it is a string
+  timeout?: number; // ms per attempt
+  retries?: number; // extra attempts after a network error, timeout, 408, 429 or 5xx
+  retryDelay?: number; // ms before the first retry, doubling after each one
+  expectStatus?: number[]; // statuses that count as success, default any 2xx
+}
+
+/**
+ * Publish to the MQTT broker of the `mqtt` config
+ */
+export interface MqttAction {
+  type: 'mqtt';
+  topic: string; // topic and payload strings are `{{field}}` templates
+  payload?: unknown; // sent as JSON unless it is a string
+  retain?: boolean;
+  qos?: 0 | 1 | 2;
+}
+
+/**
+ * An OSC argument. Plain numbers are sent as int when whole and float when
+ * not, booleans as true/false and null as nil; the object form picks the type.
+ */
+export type OscArgument =
+  | number
+  | string
+  | boolean
+  | null
+  | { type: 'int' | 'float' | 'string' | 'bool'; value: unknown };
+
+/**
+ * Send an OSC message over UDP to a target from the `osc` config, or to
+ * `host` and `port`
+ */
+export interface OscAction {
+  type: 'osc';
+  address: string; // address and string arguments are `{{field}}` templates
+  args?: OscArgument[];
+  target?: string;
+  host?: string;
+  port?: number;
+}
+
+/**
+ * Stop running shell actions by id, or all of them with `*`
+ */
+export interface CancelAction {
+  type: 'cancel';
+  id: string;
+}
+
+/**
+ * Run a list of steps, or the named macro from the config's `macros`
+ */
+export interface MacroAction {
+  type: 'macro';
+  steps?: MacroStep[];
+  name?: string;
+  onError?: MacroFailurePolicy; // for steps without their own, defaults to abort
+}
+
+/**
+ * What a failed macro step does to the rest of the macro
+ */
+export type MacroFailurePolicy = 'abort' | 'continue';
+
+export interface MacroWaitStep {
+  wait: number; // ms
+}
+
+export interface MacroRepeatStep {
+  repeat: number;
+  steps: MacroStep[];
+  interval?: number; // ms between repetitions
+}
+
+export interface MacroParallelStep {
+  parallel: MacroStep[]; // run at once; the step ends when all of them have
+}
+
+export interface MacroCallStep {
+  call: string; // a named macro
+}
+
+/**
+ * Failure handling any step object can carry. With a `fallback` the
+ * fallback runs instead and the macro goes on.
+ */
+export interface MacroStepOptions {
+  onError?: MacroFailurePolicy;
+  fallback?: MacroStep;
+}
+
+export type MacroStep =
+  | string
+  | ((Action | MacroWaitStep | MacroRepeatStep | MacroParallelStep | MacroCallStep) & MacroStepOptions);
+
+/**
+ * A macro defined once in the config and called by name
+ */
+export interface MacroDefinition {
+  steps: MacroStep[];
+  onError?: MacroFailurePolicy;
+  description?: string;
+}
+
+export interface CustomAction {
+  type: string;
+  [key: string]: unknown;
+}
+
+export type Action =
+  | LogAction
+  | ShellAction
+  | CancelAction
+  | HttpAction
+  | MqttAction
+  | OscAction
+  | MacroAction
+  | CustomAction;
+
+/**
+ * An action object, or a string shorthand: `log`, `<type>:<argument>`
+ * (e.g. `macro:a|b`) or else a shell command
+ */
+export type ActionDefinition = string | Action;
+
+/**
+ * What happens when a binding fires while its previous action is still
+ * running: run both, run the new one afterwards, ignore the new one, or
+ * cancel the old one
+ */
+export type ConcurrencyPolicy = 'parallel' | 'queue' | 'drop' | 'restart';
+
+export interface ExecutionConfig {
+  maxConcurrent?: number; // actions running at once across all devices
+  defaultPolicy?: ConcurrencyPolicy; // defaults to queue
+  drainTimeout?: number; // ms running actions get to finish on shutdown
+}
+
+/**
+ * Actions bound to a control. `action` is shorthand for `press`, or for
+ * `tap` once the binding uses gestures; `change` fires on every position
+ * change of a multi-position control.
+ */
+export interface ActionBinding {
+  name: string;
+  action?: ActionDefinition;
+  press?: ActionDefinition;
+  release?: ActionDefinition;
+  change?: ActionDefinition;
+  tap?: ActionDefinition;
+  doubleTap?: ActionDefinition;
+  longPress?: ActionDefinition;
+  repeat?: ActionDefinition;
+  gestures?: GestureConfig;
+  concurrency?: ConcurrencyPolicy;
+  description?: string;
+}
+
+/**
+ * Bindings keyed by control id, e.g. `cruise`, `abs.up` or `three_way_1.home`
+ */
 export interface ActionMapping {
-  [buttonIndex: number]: {
-    name: string;
-    action: string;
-    description?: string;
+  [controlId: string]: ActionBinding;
+}
+
+/**
+ * A binding layer, active while every selector control in `when` is in the
+ * given position. Its actions take precedence over the base bindings.
+ */
+export interface LayerDefinition {
+  name: string;
+  when: Record<string, ControlState>;
+  actions: ActionMapping;
+  onEnter?: ActionDefinition;
+  onExit?: ActionDefinition;
+}
+
+export interface LayerConfig {
+  selectors: string[]; // control ids whose positions pick the active layer
+  layers: LayerDefinition[];
+}
+
+/**
+ * Controls held together, e.g. ESC+Enter. Members' own bindings are
+ * suppressed while the chord is held.
+ */
+export interface ChordTrigger {
+  name: string;
+  controls: string[];
+  action: ActionDefinition;
+  description?: string;
+}
+
+/**
+ * Controls pressed in order, each within `timeout` ms of the previous one
+ */
+export interface SequenceTrigger {
+  name: string;
+  steps: string[];
+  timeout?: number;
+  action: ActionDefinition;
+  description?: string;
+}
+
+export interface TriggerConfig {
+  chordWindow?: number; // ms a chord member's own press is held back
+  chords?: ChordTrigger[];
+  sequences?: SequenceTrigger[];
+}
+
+/**
+ * Raw readings at the ends of an axis' travel and, for sticks that rest in
+ * the middle, at rest
+ */
+export interface AxisCalibration {
+  min: number;
+  max: number;
+  center?: number;
+}
+
+/**
+ * A position on an axis that acts as a button: `axis.name` is pressed when
+ * the value rises to `above` (or falls to `below`) and released once it is
+ * `hysteresis` back on the other side
+ */
+export interface AxisThreshold {
+  name: string;
+  above?: number;
+  below?: number;
+  hysteresis?: number; // defaults to 0.05
+}
+
+export type AxisCurve = 'linear' | 'quadratic' | 'cubic' | 's-curve';
+
+/**
+ * How a raw axis reading becomes a normalized value: 0..1, or -1..1 for
+ * centered axes. Deadzone and curve apply to the distance from rest.
+ */
+export interface AxisConfig {
+  calibration?: AxisCalibration; // defaults to the range the parser reports
+  centered?: boolean; // defaults to true with a calibrated center or a signed range
+  invert?: boolean;
+  deadzone?: number; // fraction of the travel that reads as rest
+  curve?: AxisCurve | number; // a number is used as an exponent
+  minChange?: number; // smallest change reported, defaults to 0.01
+  thresholds?: AxisThreshold[];
+}
+
+/**
+ * How a control's transitions are debounced:
+ * - `none`: every transition goes straight through
+ * - `settle`: a transition is held until the control stays put for `ms`;
+ *   bouncing back to where it started cancels it
+ * - `lockout`: the first transition goes through at once, later ones within
+ *   `ms` are folded into a single net transition at the end of the window
+ */
+export type DebounceStrategy = 'none' | 'settle' | 'lockout';
+
+export interface DebounceRule {
+  strategy: DebounceStrategy;
+  ms?: number; // defaults to polling.debounce
+}
+
+/**
+ * While the device is missing it is looked for again after `initialDelay`
+ * ms, waiting `factor` times longer after each miss up to `maxDelay`
+ */
+export interface ReconnectConfig {
+  enabled?: boolean;
+  initialDelay?: number;
+  maxDelay?: number;
+  factor?: number;
+}
+
+/**
+ * Actions run when the device appears or goes away
+ */
+export interface LifecycleConfig {
+  onConnect?: ActionDefinition;
+  onDisconnect?: ActionDefinition;
+}
+
+/**
+ * MQTT broker connection. Control events are published under
+ * `<baseTopic>/<device id>/<control id>/event`, and the retained state of
+ * switches, knobs and axes under `.../state`.
+ */
+export interface MqttConfig {
+  url: string; // e.g. mqtt://localhost:1883
+  username?: string;
+  password?: string;
+  clientId?: string;
+  baseTopic?: string; // defaults to hid-monitor
+  qos?: 0 | 1 | 2; // for events and state, defaults to 0
+  events?: boolean; // publish control events, defaults to true
+  homeAssistant?: boolean | { prefix?: string }; // publish discovery configs, prefix defaults to homeassistant
+  subscriptions?: Record<string, ActionDefinition>; // topic filter -> action run for each message
+}
+
+export interface OscTarget {
+  host: string;
+  port: number;
+}
+
+/**
+ * OSC over UDP: named targets for `osc` actions, and optionally every
+ * control event mirrored to one of them as `<prefix>/<kind>/<control>`
+ */
+export interface OscConfig {
+  targets?: Record<string, OscTarget>;
+  forward?: {
+    target?: string; // a named target, or `host` and `port`
+    host?: string;
+    port?: number;
+    prefix?: string; // defaults to `/<device id>`
   };
 }
 
+/**
+ * Plugin modules: every module in `dir`, then those in `modules`. Each
+ * plugin gets `config.<plugin name>` as its settings.
+ */
+export interface PluginsConfig {
+  dir?: string; // defaults to plugins
+  modules?: string[]; // file paths, relative to the working directory, or package names
+  config?: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Embedded HTTP/WebSocket server for dashboards and overlays
+ */
+export interface ServerConfig {
+  port?: number; // defaults to 8080
+  host?: string; // defaults to 127.0.0.1, only this machine
+  token?: string; // required as `Authorization: Bearer <token>` or `?token=` when set
+  inject?: boolean; // virtual input, on by default only with a token
+  origins?: string[]; // browser origins allowed besides the server's own, `*` for any
+  hosts?: string[]; // host names the server answers to besides IP addresses, localhost and `host`
+}
+
+export interface CaptureConfig {
+  record?: string; // write every raw report to this file
+  replay?: string; // read reports from this file instead of the device
+  replaySpeed?: number | 'instant'; // 1 = original timing
+  instantGap?: number; // ms an instant replay keeps of each gap at most, defaults to just past the longest timing window
+}
+
+/**
+ * A device to open. With several devices of the same VID/PID, give each a
+ * serial number or path so they are told apart the same way every time.
+ */
+export interface DeviceConfig {
+  id?: string; // stable id carried by events and used in `id:control` bindings
+  vendorId: number;
+  productId: number;
+  serialNumber?: string;
+  path?: string;
+  usagePage?: number;
+  interface?: number;
+  name?: string;
+  profile?: string; // device profile name, picked by match specificity when not set
+  parser?: string; // overrides the profile's parser
+  controls?: string; // overrides the profile's control definitions
+  actions?: ActionMapping; // bindings for this device only
+  axes?: Record<string, AxisConfig>; // axis settings for this device only
+}
+
 export interface Config {
-  device: {
-    vendorId: number;
-    productId: number;
-    name?: string;
-  };
+  device: DeviceConfig;
+  devices?: DeviceConfig[]; // several devices at once; replaces `device`
+  profilesDir?: string; // directory of device profiles, defaults to profiles
   polling: {
     frequency: number; // milliseconds
     debounce: number; // milliseconds
+    debounceByKind?: Partial<Record<ControlKind, DebounceRule>>;
+    debounceByControl?: Record<string, DebounceRule>;
   };
   actions: ActionMapping;
+  axes?: Record<string, AxisConfig>; // keyed by control id, merged over the profile's
+  layers?: LayerConfig;
+  triggers?: TriggerConfig;
+  reconnect?: ReconnectConfig;
+  lifecycle?: LifecycleConfig;
+  execution?: ExecutionConfig;
+  macros?: Record<string, MacroDefinition | MacroStep[]>; // called with `{ "call": name }` or `macro:name`
+  mqtt?: MqttConfig;
+  server?: ServerConfig;
+  osc?: OscConfig;
+  plugins?: PluginsConfig;
+  capture?: CaptureConfig;
   logging: {
     level: 'debug' | 'info' | 'warn' | 'error';
     enableRawData: boolean;
   };
 }
 
+export interface MonitorStatus {
+  isRunning: boolean;
+  isConnected: boolean;
+  devices: Array<{ id: string; isConnected: boolean }>;
+  actions: { running: number; pending: number };
+  mqtt: { isConnected: boolean } | null;
+  plugins: string[];
+}
+
 export interface Logger {
   debug: (message: string, ...args: unknown[]) => void;
   info: (message: string, ...args: unknown[]) => void;
@@ -54,9 +519,23 @@ export interface EventParser {
   name: string;
   parse: (data: Buffer) => ParsedEvent;
   supportsDevice: (device: HIDDevice) => boolean;
+  getControlStates?: () => Record<string, ControlState>;
+  getControls?: () => ControlInfo[]; // every control the parser can report
+  reset?: () => void; // forget the previous report, e.g. after a reconnect
+  setReportDescriptor?: (descriptor: Buffer) => void; // called with the descriptor once the device is open
+  getAxisRanges?: () => Record<string, AxisCalibration>; // logical range of each axis the parser reports
 }
 
-export interface ActionRunner {
+/**
+ * Runs one type of action. `validate` throws when an action of its type is
+ * malformed; `fromShorthand` builds one from the text after `<type>:`.
+ * `execute` rejects when the action fails and may resolve with a result,
+ * e.g. a shell command's exit code and output.
+ */
+export interface ActionRunner<T extends Action = Action> {
   name: string;
-  execute: (action: string, context?: Record<string, unknown>) => Promise<void>;
+  type: string;
+  validate?(action: T): void;
+  fromShorthand?(argument: string): T;
+  execute(action: T, context?: Record<string, unknown>): Promise<unknown>;
 } 
\ No newline at end of file
@@ -45,4 +45,30 @@ export class ConsoleLogger implements Logger {
   setLevel(level: 'debug' | 'info' | 'warn' | 'error'): void {
     this.level = level;
   }
-} 
\ No newline at end of file
+}
+/**
+ * Prefixes every message with a scope, e.g. `[plugin:obs]`, and passes it
+ * on to another logger
+ */
+export class ScopedLogger implements Logger {
+  constructor(
+    private logger: Logger,
+    private scope: string
+  ) {}
+
+  debug(message: string, ...args: unknown[]): void {
+    this.logger.debug(`[${this.scope}] ${message}`, ...args);
+  }
+
+  info(message: string, ...args: unknown[]): void {
+    this.logger.info(`[${this.scope}] ${message}`, ...args);
+  }
+
+  warn(message: string, ...args: unknown[]): void {
+    this.logger.warn(`[${this.scope}] ${message}`, ...args);
+  }
+
+  error(message: string, ...args: unknown[]): void {
+    this.logger.error(`[${this.scope}] ${message}`, ...args);
+  }
+}
@@ -12,7 +12,7 @@ try {
     {
       name: 'ABS Knob Up',
       baseline: Buffer.from([0x01, 0x40, 0x00, 0x00, 0x00, 0x00]),
-      data: Buffer.from([0x01, 0x40, 0x20, 0x00, 0x00, 0x00]),
+      data: Buffer.from([0x01, 0x40, 0x00, 0x20, 0x00, 0x00]),
       expected: 'ABS Knob Up'
     },
     {
@@ -21,11 +21,29 @@ try {
       data: Buffer.from([0x01, 0x41, 0x00, 0x00, 0x00, 0x00]),
       expected: 'Handle Button'
     },
+    {
+      name: 'Cruise while Handle is held',
+      baseline: Buffer.from([0x01, 0x41, 0x00, 0x00, 0x00, 0x00]),
+      data: Buffer.from([0x01, 0x43, 0x00, 0x00, 0x00, 0x00]),
+      expected: 'Cruise Button'
+    },
     {
       name: 'Kill Switch',
       baseline: Buffer.from([0x01, 0x40, 0x00, 0x00, 0x00, 0x00]),
       data: Buffer.from([0x01, 0x40, 0x08, 0x00, 0x00, 0x00]),
       expected: 'Red Kill Switch'
+    },
+    {
+      name: 'Three-Way Switch 4 Up while Switch 3 is Up',
+      baseline: Buffer.from([0x01, 0x40, 0x00, 0x01, 0x00, 0x00]),
+      data: Buffer.from([0x01, 0x40, 0x00, 0x05, 0x00, 0x00]),
+      expected: 'three_way_4: home -> up'
+    },
+    {
+      name: 'Joystick Up-Left',
+      baseline: Buffer.from([0x01, 0x40, 0x00, 0x00, 0x00, 0x00]),
+      data: Buffer.from([0x01, 0x40, 0x00, 0x00, 0x00, 0x08]),
+      expected: 'joystick: center -> up_left'
     }
   ];
 
@@ -39,23 +57,16 @@ try {
     const result = freshParser.testParse(testCase.baseline, testCase.data);
     
     if (result) {
+      // Feed the baseline so the parser can report what changed
+      freshParser.parse(testCase.baseline);
+      const changes = freshParser.getDetectedChanges(testCase.data);
       console.log(`  ✅ Detected: ${testCase.expected}`);
+      console.log(`  🔍 Changes: ${changes.join(', ')}`);
       console.log(`  📊 Raw data: ${testCase.data.toString('hex')}`);
     } else {
       console.log(`  ❌ No match found`);
       console.log(`  🔍 Expected changes: ${testCase.expected}`);
       console.log(`  📊 Raw data: ${testCase.data.toString('hex')}`);
-      
-      // Debug: show what changes should be detected
-      const baselineState = Array.from(testCase.baseline);
-      const currentState = Array.from(testCase.data);
-      const expectedChanges = [];
-      for (let i = 0; i < Math.min(baselineState.length, currentState.length); i++) {
-        if (baselineState[i] !== currentState[i]) {
-          expectedChanges.push(`byte${i + 1}:${baselineState[i]}->${currentState[i]}`);
-        }
-      }
-      console.log(`  🔍 Expected changes: ${expectedChanges.join(', ')}`);
     }
     console.log('');
   }
@@ -73,7 +84,11 @@ try {
   Object.entries(controls.knobs).forEach(([id, actions]) => {
     console.log(`  ${id}:`);
     Object.entries(actions).forEach(([action, knob]) => {
-      console.log(`    ${action}: ${knob.user_name || knob.default_name}`);
+      if (action === 'encoder') {
+        console.log(`    encoder: ${JSON.stringify(knob)}`);
+      } else {
+        console.log(`    ${action}: ${knob.user_name || knob.default_name}`);
+      }
     });
   });
 
@@ -89,7 +104,11 @@ try {
 
   console.log('\n🎮 Joystick:');
   Object.entries(controls.joystick).forEach(([direction, joystick]) => {
-    console.log(`  ${direction}: ${joystick.user_name || joystick.default_name}`);
+    if (typeof joystick !== 'object') {
+      console.log(`  ${direction}: ${joystick}`);
+    } else {
+      console.log(`  ${direction}: ${joystick.user_name || joystick.default_name}`);
+    }
   });
 
 } catch (error) {
@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ActionRegistry, collectActions, describeAction } from '../src/actions/index.js';
+import type { Action, Config } from '../src/types/index.js';
+import { CB1, logger } from './helpers.js';
+
+describe('ActionRegistry', () => {
+  const registry = new ActionRegistry(logger, { lights: ['log'] });
+
+  it('expands the string shorthand', () => {
+    assert.deepEqual(registry.normalize('log'), { type: 'log' });
+    assert.deepEqual(registry.normalize('log:Pit limiter on'), { type: 'log', message: 'Pit limiter on' });
+    assert.deepEqual(registry.normalize('macro:lights'), { type: 'macro', name: 'lights' });
+    assert.deepEqual(registry.normalize('macro:log|log:done'), { type: 'macro', steps: ['log', 'log:done'] });
+    assert.deepEqual(registry.normalize('cancel:wipers'), { type: 'cancel', id: 'wipers' });
+  });
+
+  it('runs anything else as a shell command line', () => {
+    assert.deepEqual(registry.normalize('say hello'), { type: 'shell', command: 'say hello', shell: true });
+    // http has no shorthand, so a url is a command like any other
+    assert.deepEqual(registry.normalize('http://example.com'), { type: 'shell', command: 'http://example.com', shell: true });
+  });
+
+  it('needs a type on action objects', () => {
+    assert.throws(() => registry.normalize({} as Action), /action objects need a "type"/);
+  });
+
+  it('checks actions against their runner', () => {
+    assert.doesNotThrow(() => registry.validate({ type: 'http', url: 'http://127.0.0.1/{{controlId}}' }));
+    assert.throws(() => registry.validate({ type: 'http', url: 'not a url' }), /"url" is not a valid URL: not a url/);
+    assert.throws(() => registry.validate({ type: 'shell', command: 'true', timeout: -1 }), /"timeout" must be a non-negative number/);
+    assert.throws(() => registry.validate({ type: 'teleport' }), /No action runner for type: teleport/);
+  });
+
+  it('runs an action on the runner registered for its type, the latest one winning', async () => {
+    const local = new ActionRegistry(logger);
+    const ran: string[] = [];
+    const runner = (name: string) => ({
+      name,
+      type: 'note',
+      fromShorthand: (argument: string) => ({ type: 'note', text: argument }),
+      async execute(action: Action & { text?: string }) {
+        ran.push(`${name}: ${action.text}`);
+        return action.text?.length;
+      },
+    });
+
+    local.register(runner('first'));
+    local.register(runner('second'));
+
+    assert.equal(await local.executeAction('note:hello'), 5);
+    assert.deepEqual(ran, ['second: hello']);
+    assert.equal(local.getRunner('note')?.name, 'second');
+  });
+
+  it('refuses to run an invalid action', async () => {
+    await assert.rejects(registry.executeAction({ type: 'log', message: 5 } as Action), /"message" must be a non-empty string/);
+  });
+});
+
+describe('describeAction', () => {
+  it('gives a short form of each kind of action', () => {
+    assert.equal(describeAction('say hello'), 'say hello');
+    assert.equal(describeAction({ type: 'shell', command: 'obs-cli', args: ['scene', 'Pit'] }), 'obs-cli scene Pit');
+    assert.equal(describeAction({ type: 'http', url: 'http://x', body: {} }), 'POST http://x');
+    assert.equal(describeAction({ type: 'macro', steps: ['log', 'log'] }), 'macro (2 steps)');
+    assert.equal(describeAction({ type: 'log' }), 'log');
+  });
+});
+
+describe('collectActions', () => {
+  it('lists every action in a config with where it is set', () => {
+    const config: Config = {
+      device: { ...CB1 },
+      polling: { frequency: 10, debounce: 50 },
+      actions: { esc: { name: 'Esc', action: 'log', release: 'log:up' } },
+      layers: {
+        selectors: ['kill_switch'],
+        layers: [{ name: 'Pit', when: { kill_switch: true }, onEnter: 'log', actions: { esc: { name: 'Fuel', tap: 'log' } } }],
+      },
+      triggers: { chords: [{ name: 'both', controls: ['esc', 'enter'], action: 'log' }] },
+      lifecycle: { onConnect: 'log' },
+      macros: { lights: ['log'] },
+      logging: { level: 'error', enableRawData: false },
+    };
+
+    assert.deepEqual(collectActions(config).map(([where]) => where), [
+      'actions.esc.action',
+      'actions.esc.release',
+      'layers.Pit.actions.esc.tap',
+      'layers.Pit.onEnter',
+      'triggers.chords.both',
+      'lifecycle.onConnect',
+      'macros.lights',
+    ]);
+  });
+});
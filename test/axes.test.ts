@@ -0,0 +1,141 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AxisCalibrator, AxisProcessor, mergeAxisConfigs, normalizeAxis } from '../src/hid/axes.js';
+import type { AxisConfig, ControlEvent } from '../src/types/index.js';
+
+const PEDAL = { min: 0, max: 1023 };
+const STICK = { min: 0, max: 255, center: 128 };
+
+function axisEvent(controlId: string, previousState: number, state: number): ControlEvent {
+  return { controlId, kind: 'axis', type: 'change', previousState, state, timestamp: 0, deviceId: 'test' };
+}
+
+describe('normalizeAxis', () => {
+  it('maps a one-sided axis to 0..1', () => {
+    assert.equal(normalizeAxis(0, {}, PEDAL), 0);
+    assert.equal(normalizeAxis(1023, {}, PEDAL), 1);
+    assert.equal(normalizeAxis(2000, {}, PEDAL), 1);
+    assert.equal(normalizeAxis(512, {}, PEDAL), 0.5005);
+  });
+
+  it('maps a centered axis to -1..1 on each side of its center', () => {
+    assert.equal(normalizeAxis(128, {}, STICK), 0);
+    assert.equal(normalizeAxis(0, {}, STICK), -1);
+    assert.equal(normalizeAxis(255, {}, STICK), 1);
+    assert.equal(normalizeAxis(64, {}, STICK), -0.5);
+    assert.equal(normalizeAxis(0, {}, { min: -100, max: 100 }), 0);
+  });
+
+  it('inverts either kind of axis', () => {
+    assert.equal(normalizeAxis(0, { invert: true }, PEDAL), 1);
+    assert.equal(normalizeAxis(0, { invert: true }, STICK), 1);
+  });
+
+  it('zeroes the deadzone and rescales the rest of the travel', () => {
+    const config: AxisConfig = { deadzone: 0.2 };
+
+    assert.equal(normalizeAxis(138, config, STICK), 0);
+    assert.equal(normalizeAxis(64, config, STICK), -0.375);
+    assert.equal(normalizeAxis(255, config, STICK), 1);
+  });
+
+  it('shapes the travel with a curve, keeping the direction', () => {
+    assert.equal(normalizeAxis(64, { curve: 'quadratic' }, STICK), -0.25);
+    assert.equal(normalizeAxis(64, { curve: 'cubic' }, STICK), -0.125);
+    assert.equal(normalizeAxis(64, { curve: 's-curve' }, STICK), -0.5);
+    assert.equal(normalizeAxis(64, { curve: 1.5 }, STICK), -0.3536);
+  });
+});
+
+describe('AxisProcessor', () => {
+  const thresholds: AxisConfig = {
+    calibration: { min: 0, max: 100 },
+    thresholds: [
+      { name: 'floored', above: 0.9, hysteresis: 0.1 },
+      { name: 'lifted', below: 0.05 },
+    ],
+  };
+
+  it('replaces raw readings with normalized values', () => {
+    const processor = new AxisProcessor({ throttle: { calibration: { min: 0, max: 100 } } });
+    const [event] = processor.process([axisEvent('throttle', 0, 25)]);
+
+    assert.deepEqual([event.previousState, event.state, event.raw], [0, 0.25, 25]);
+  });
+
+  it('takes ranges from the parser when not calibrated', () => {
+    const processor = new AxisProcessor({}, () => ({ throttle: { min: 0, max: 200 } }));
+    assert.equal(processor.process([axisEvent('throttle', 0, 50)])[0].state, 0.25);
+
+    // Nothing to normalize against
+    assert.equal(processor.process([axisEvent('other', 0, 50)])[0].state, 50);
+  });
+
+  it('drops changes smaller than minChange except at rest or an end', () => {
+    const processor = new AxisProcessor({ throttle: { calibration: { min: 0, max: 1000 }, minChange: 0.05 } });
+    const states = [100, 120, 160, 990, 1000, 30, 0].map((raw, i, all) =>
+      processor.process([axisEvent('throttle', all[i - 1] ?? 0, raw)]).map(event => event.state));
+
+    assert.deepEqual(states, [[0.1], [], [0.16], [0.99], [1], [0.03], [0]]);
+  });
+
+  it('presses a threshold once crossed, releasing it past the hysteresis', () => {
+    const processor = new AxisProcessor({ throttle: thresholds });
+    const fired = [50, 92, 85, 81, 79, 3].map((raw, i, all) =>
+      processor.process([axisEvent('throttle', all[i - 1] ?? 50, raw)])
+        .filter(event => event.kind === 'momentary')
+        .map(event => `${event.controlId} ${event.type}`));
+
+    assert.deepEqual(fired, [
+      [],
+      ['throttle.floored press'],
+      [],
+      [],
+      ['throttle.floored release'],
+      ['throttle.lifted press'],
+    ]);
+  });
+
+  it('starts from the baseline reading without firing thresholds already crossed', () => {
+    const processor = new AxisProcessor({ throttle: thresholds });
+    const events = processor.process([axisEvent('throttle', 2, 4)]);
+
+    assert.deepEqual(events.map(event => event.controlId), ['throttle']);
+  });
+
+  it('normalizes parser states like events', () => {
+    const processor = new AxisProcessor({ throttle: thresholds }, () => ({ stick: STICK }));
+
+    assert.deepEqual(processor.normalizeStates({ throttle: 50, stick: 0, esc: true }), { throttle: 0.5, stick: -1, esc: true });
+  });
+});
+
+describe('AxisCalibrator', () => {
+  it('records the travel of each axis and a center for those resting inside it', () => {
+    const calibrator = new AxisCalibrator(['stick', 'pedal', 'still']);
+
+    calibrator.sample({ stick: 130, pedal: 2, still: 7 });
+    calibrator.markRest();
+    for (const [stick, pedal] of [[0, 500], [255, 1020], [128, 0]]) {
+      calibrator.sample({ stick, pedal, still: 7 });
+    }
+
+    assert.deepEqual(calibrator.getCalibrations(), {
+      stick: { min: 0, max: 255, center: 130 },
+      pedal: { min: 0, max: 1020 },
+    });
+  });
+});
+
+describe('mergeAxisConfigs', () => {
+  it('merges per axis, later sources winning', () => {
+    assert.deepEqual(mergeAxisConfigs(
+      { x: { calibration: { min: 0, max: 10 }, deadzone: 0.1 } },
+      undefined,
+      { x: { deadzone: 0.2 }, y: { invert: true } }
+    ), {
+      x: { calibration: { min: 0, max: 10 }, deadzone: 0.2 },
+      y: { invert: true },
+    });
+  });
+});
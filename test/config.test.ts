@@ -0,0 +1,77 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ConfigManager } from '../src/config/index.js';
+
+describe('ConfigManager', () => {
+  const cwd = process.cwd();
+  const env = { ...process.env };
+  let directory: string;
+
+  before(() => {
+    directory = mkdtempSync(join(tmpdir(), 'hid-config-'));
+    process.chdir(directory);
+  });
+
+  after(() => {
+    process.chdir(cwd);
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    rmSync(join(directory, 'config.json'), { force: true });
+  });
+
+  function write(name: string, config: unknown): string {
+    const path = join(directory, name);
+    writeFileSync(path, typeof config === 'string' ? config : JSON.stringify(config));
+    return path;
+  }
+
+  it('uses the defaults without a config file', () => {
+    delete process.env.HID_CONFIG;
+    const manager = new ConfigManager();
+
+    assert.equal(manager.configPath, null);
+    assert.equal(manager.getConfig().device.vendorId, 0x36E6);
+  });
+
+  it('reads config.json from the working directory', () => {
+    delete process.env.HID_CONFIG;
+    write('config.json', { polling: { debounce: 20 } });
+    const manager = new ConfigManager();
+
+    assert.equal(manager.configPath, 'config.json');
+    assert.deepEqual(manager.getConfig().polling, { frequency: 10, debounce: 20 });
+  });
+
+  it('prefers the given path to HID_CONFIG, and HID_CONFIG to config.json', () => {
+    write('config.json', { polling: { debounce: 1 } });
+    process.env.HID_CONFIG = write('env.json', { polling: { debounce: 2 } });
+    const given = write('given.json', { polling: { debounce: 3 } });
+
+    assert.equal(new ConfigManager().getConfig().polling.debounce, 2);
+    assert.equal(new ConfigManager(given).getConfig().polling.debounce, 3);
+  });
+
+  it('applies the environment over the file', () => {
+    process.env.HID_DEBOUNCE = '70';
+    process.env.HID_VENDOR_ID = '1234';
+    const manager = new ConfigManager(write('file.json', {
+      device: { vendorId: 0x1111, productId: 0x2222 },
+      polling: { frequency: 5, debounce: 30 },
+    }));
+
+    assert.deepEqual(manager.getConfig().polling, { frequency: 5, debounce: 70 });
+    assert.equal(manager.getConfig().device.vendorId, 0x1234);
+    assert.equal(manager.getConfig().device.productId, 0x2222);
+  });
+
+  it('refuses a config file it can\'t read', () => {
+    assert.throws(() => new ConfigManager(join(directory, 'missing.json')), /Failed to load config file .*missing\.json/);
+    assert.throws(() => new ConfigManager(write('broken.json', '{ "polling": ')), /Failed to load config file .*broken\.json/);
+  });
+});
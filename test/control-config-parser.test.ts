@@ -0,0 +1,143 @@
+import { before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { ControlConfigParser, type ControlConfig } from '../src/parsers/control-config-parser.js';
+import type { ControlEvent } from '../src/types/index.js';
+import { IDLE, ROOT, report } from './helpers.js';
+
+const CONTROLS: ControlConfig = JSON.parse(readFileSync(join(ROOT, 'config-controls.json'), 'utf8'));
+
+const ABS_UP = report({ 3: 0x20 });
+const ABS_DOWN = report({ 3: 0x10 });
+const TC_UP = report({ 3: 0x80 });
+const TC_DOWN = report({ 3: 0x40 });
+
+// The parser prints every change to stdout, where the test runner reads its results from
+before(() => mock.method(console, 'log', () => {}));
+
+function parser(config: ControlConfig = CONTROLS): ControlConfigParser {
+  const created = new ControlConfigParser(config);
+  created.parse(Buffer.from(IDLE));
+  return created;
+}
+
+/**
+ * Feed reports, returning the events for one control
+ */
+function feed(target: ControlConfigParser, controlId: string, ...reports: number[][]): ControlEvent[] {
+  return reports
+    .flatMap(data => target.parse(Buffer.from(data)).controlEvents ?? [])
+    .filter(event => event.controlId === controlId);
+}
+
+describe('knobs', () => {
+  it('turn their encoder once per pulse', () => {
+    const cb1 = parser();
+    const events = feed(cb1, 'tc', TC_UP, IDLE, TC_UP, IDLE);
+
+    assert.deepEqual(events.map(event => [event.kind, event.previousState, event.state, event.delta]), [
+      ['encoder', 1, 2, 1],
+      ['encoder', 2, 3, 1],
+    ]);
+    assert.equal(cb1.getControlStates().tc, 3);
+  });
+
+  it('wrap the TC knob from 1 round to 12', () => {
+    const cb1 = parser();
+
+    assert.deepEqual(feed(cb1, 'tc', TC_DOWN, IDLE).map(event => event.state), [12]);
+    assert.deepEqual(feed(cb1, 'tc', TC_UP, IDLE, TC_UP, IDLE).map(event => event.state), [1, 2]);
+  });
+
+  it('clamp the ABS knob and speed up fast turns', () => {
+    const cb1 = parser();
+
+    // Pulses this close together count the full multiplier after the first
+    const events = feed(cb1, 'abs', ABS_UP, IDLE, ABS_UP, IDLE);
+    assert.deepEqual(events.map(event => [event.delta, event.state]), [[1, 51], [5, 56]]);
+
+    const down = feed(cb1, 'abs', ...Array.from({ length: 15 }, () => [ABS_DOWN, IDLE]).flat());
+    assert.equal(down.at(-1)?.state, 0);
+    assert.equal(cb1.getControlStates().abs, 0);
+  });
+
+  it('list the pulses as buttons and the knob as an encoder', () => {
+    const controls = parser().getControls();
+
+    assert.deepEqual(controls.filter(control => control.id.startsWith('abs')).map(control => [control.id, control.kind]), [
+      ['abs.up', 'momentary'],
+      ['abs', 'encoder'],
+      ['abs.down', 'momentary'],
+      ['abs.click', 'momentary'],
+    ]);
+  });
+
+  it('keep their value when the baseline is reset', () => {
+    const cb1 = parser();
+    feed(cb1, 'tc', TC_UP, IDLE);
+    cb1.reset();
+    cb1.parse(Buffer.from(IDLE));
+
+    assert.equal(cb1.getControlStates().tc, 2);
+  });
+});
+
+describe('joystick hat', () => {
+  const HAT = ['center', 'up', 'up_right', 'right', 'down_right', 'down', 'down_left', 'left', 'up_left'];
+  const hat = (position: string): number[] => report({ 5: HAT.indexOf(position) });
+
+  const cardinalOnly: ControlConfig = {
+    ...CONTROLS,
+    controls: {
+      ...CONTROLS.controls,
+      joystick: { ...CONTROLS.controls.joystick, cardinal_only: true } as ControlConfig['controls']['joystick'],
+    },
+  };
+
+  it('decodes all eight directions and center', () => {
+    const cb1 = parser();
+
+    for (const position of HAT) {
+      assert.equal(cb1.decode(Buffer.from(hat(position))).joystick, position);
+    }
+    assert.equal(cb1.decode(Buffer.from(report({ 5: 0x0f }))).joystick, null);
+  });
+
+  it('reports each move as a change of the hat', () => {
+    const events = feed(parser(), 'joystick', hat('up'), hat('up_right'), hat('center'));
+
+    assert.deepEqual(events.map(event => [event.kind, event.type, event.previousState, event.state]), [
+      ['hat', 'change', 'center', 'up'],
+      ['hat', 'change', 'up', 'up_right'],
+      ['hat', 'change', 'up_right', 'center'],
+    ]);
+  });
+
+  it('keeps the push separate from the direction', () => {
+    const cb1 = parser();
+    const pressed = feed(cb1, 'joystick.press', report({ 4: 0x02, 5: 1 }));
+
+    assert.deepEqual(pressed.map(event => event.type), ['press']);
+    assert.equal(cb1.getControlStates().joystick, 'up');
+  });
+
+  it('folds diagonals into the direction the stick came from with cardinal_only', () => {
+    const events = feed(parser(cardinalOnly), 'joystick',
+      hat('up'), hat('up_right'), hat('right'), hat('down_right'), hat('center'), hat('down_left'));
+
+    // up -> up_right stays up; right -> down_right stays right; a diagonal
+    // from center takes its first direction
+    assert.deepEqual(events.map(event => event.state), ['up', 'right', 'center', 'down']);
+  });
+
+  it('only ever reports cardinal directions with cardinal_only', () => {
+    const cb1 = parser(cardinalOnly);
+    const states = HAT.map(position => {
+      cb1.parse(Buffer.from(hat(position)));
+      return cb1.getControlStates().joystick;
+    });
+
+    assert.ok(states.every(state => ['center', 'up', 'right', 'down', 'left'].includes(state as string)), String(states));
+  });
+});
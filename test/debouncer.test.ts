@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ControlDebouncer } from '../src/hid/debouncer.js';
+import type { Config, ControlEvent, ControlKind, ControlState, ParsedEvent } from '../src/types/index.js';
+
+const PARSED: ParsedEvent = { timestamp: 0, buttonStates: [], controlEvents: [], rawData: Buffer.alloc(0), deviceId: 'test' };
+
+describe('ControlDebouncer', () => {
+  let emitted: Array<[string, ControlState, ControlState]>;
+  const states = new Map<string, ControlState>();
+
+  beforeEach(() => {
+    emitted = [];
+    states.clear();
+    mock.timers.enable({ apis: ['setTimeout'] });
+  });
+
+  afterEach(() => mock.timers.reset());
+
+  function debouncer(polling: Partial<Config['polling']> = {}): ControlDebouncer {
+    return new ControlDebouncer({ frequency: 10, debounce: 50, ...polling }, event => {
+      emitted.push([event.controlId, event.previousState, event.state]);
+    });
+  }
+
+  /**
+   * Push a control's move to a new state, as the parser would report it
+   */
+  function push(target: ControlDebouncer, controlId: string, kind: ControlKind, state: ControlState): void {
+    const previousState = states.get(controlId) ?? (typeof state === 'boolean' ? false : 'home');
+    states.set(controlId, state);
+    const event: ControlEvent = { controlId, kind, type: 'change', previousState, state, timestamp: 0, deviceId: 'test' };
+    target.push(event, PARSED);
+  }
+
+  it('passes a button press at once and folds the chatter after it', () => {
+    const buttons = debouncer();
+
+    push(buttons, 'esc', 'momentary', true);
+    push(buttons, 'esc', 'momentary', false);
+    push(buttons, 'esc', 'momentary', true);
+    assert.deepEqual(emitted, [['esc', false, true]]);
+
+    mock.timers.tick(50);
+    assert.deepEqual(emitted, [['esc', false, true]]);
+  });
+
+  it('emits the net change at the end of a lockout window, never dropping a release', () => {
+    const buttons = debouncer();
+
+    push(buttons, 'esc', 'momentary', true);
+    push(buttons, 'esc', 'momentary', false);
+    mock.timers.tick(50);
+
+    assert.deepEqual(emitted, [['esc', false, true], ['esc', true, false]]);
+  });
+
+  it('waits for a latching switch to settle', () => {
+    const switches = debouncer();
+
+    push(switches, 'three_way_1', 'three-way', 'up');
+    mock.timers.tick(30);
+    push(switches, 'three_way_1', 'three-way', 'down');
+    mock.timers.tick(30);
+    assert.equal(emitted.length, 0);
+
+    mock.timers.tick(20);
+    assert.deepEqual(emitted, [['three_way_1', 'home', 'down']]);
+  });
+
+  it('drops a switch that settles back where it started', () => {
+    const switches = debouncer();
+
+    push(switches, 'kill_switch', 'toggle', true);
+    push(switches, 'kill_switch', 'toggle', false);
+    mock.timers.tick(50);
+
+    assert.equal(emitted.length, 0);
+  });
+
+  it('never holds back encoder detents', () => {
+    const knobs = debouncer();
+
+    push(knobs, 'abs', 'encoder', 51);
+    push(knobs, 'abs', 'encoder', 52);
+
+    assert.deepEqual(emitted, [['abs', 'home', 51], ['abs', 51, 52]]);
+  });
+
+  it('debounces each control on its own timer', () => {
+    const buttons = debouncer();
+
+    push(buttons, 'esc', 'momentary', true);
+    push(buttons, 'enter', 'momentary', true);
+
+    assert.deepEqual(emitted.map(([controlId]) => controlId), ['esc', 'enter']);
+  });
+
+  it('takes per-control rules over per-kind rules over the defaults', () => {
+    const tuned = debouncer({
+      debounceByKind: { momentary: { strategy: 'none' } },
+      debounceByControl: { esc: { strategy: 'settle', ms: 20 } },
+    });
+
+    push(tuned, 'enter', 'momentary', true);
+    push(tuned, 'enter', 'momentary', false);
+    push(tuned, 'esc', 'momentary', true);
+    assert.deepEqual(emitted, [['enter', false, true], ['enter', true, false]]);
+
+    mock.timers.tick(20);
+    assert.deepEqual(emitted.at(-1), ['esc', false, true]);
+  });
+
+  it('forgets pending transitions on reset', () => {
+    const switches = debouncer();
+
+    push(switches, 'three_way_1', 'three-way', 'up');
+    switches.reset();
+    mock.timers.tick(50);
+
+    assert.equal(emitted.length, 0);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * End-to-end checks: PXN CB1 reports fed through a mock device into
+ * HIDDeviceManager, with the actions it dispatches recorded.
+ *
+ * Run with `npm test`.
+ */
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockHIDTransport, type MockHIDConnection } from '../src/hid/mock-transport.js';
+import type { Config } from '../src/types/index.js';
+import { CB1_DEVICE, CRUISE, IDLE, record, setupRigs, sleep, startCB1, type Rig } from './helpers.js';
+
+setupRigs();
+
+describe('HIDDeviceManager with a mock CB1', () => {
+  let rig: Rig;
+  let box: MockHIDConnection;
+
+  async function connect(overrides: Partial<Config> = {}): Promise<void> {
+    const transport = new MockHIDTransport([CB1_DEVICE]);
+    rig = await startCB1(transport, overrides);
+    const connection = transport.getConnection('mock-0');
+    assert.ok(connection, 'the manager opened the mock device');
+    box = connection;
+    box.feed(IDLE);
+    await sleep(10);
+  }
+
+  it('runs the action bound to a pressed button', async () => {
+    await connect({ actions: { cruise: record('Cruise'), esc: record('Esc') } });
+
+    box.feed(CRUISE);
+    box.feed(IDLE);
+    await rig.settle();
+
+    assert.deepEqual(rig.dispatched.map(({ controlId, bindingId, trigger }) => ({ controlId, bindingId, trigger })), [
+      { controlId: 'cruise', bindingId: 'cruise', trigger: 'press' },
+    ]);
+  });
+
+  it('runs release bindings on release', async () => {
+    await connect({ actions: { cruise: record('Cruise', 'release') } });
+
+    box.feed(CRUISE);
+    await rig.settle();
+    assert.equal(rig.dispatched.length, 0);
+
+    box.feed(IDLE);
+    await rig.settle();
+    assert.deepEqual(rig.dispatched.map(entry => [entry.bindingId, entry.trigger]), [['cruise', 'release']]);
+  });
+
+  it('folds contact bounce into a single press', async () => {
+    await connect({ actions: { cruise: record('Cruise') } });
+
+    box.feed(CRUISE);
+    box.feed(IDLE);
+    box.feed(CRUISE);
+    box.feed(IDLE);
+    await rig.settle();
+
+    assert.equal(rig.dispatched.length, 1);
+  });
+
+  it('keeps presses apart once the debounce window has passed', async () => {
+    await connect({ actions: { cruise: record('Cruise') } });
+
+    for (let i = 0; i < 3; i++) {
+      box.feed(CRUISE);
+      await sleep(70);
+      box.feed(IDLE);
+      await sleep(70);
+    }
+    await rig.settle();
+
+    assert.equal(rig.dispatched.length, 3);
+  });
+});
+
+describe('HIDDeviceManager reconnecting', () => {
+  const lifecycle = { onConnect: { type: 'record' }, onDisconnect: { type: 'record' } };
+
+  it('finds the device again once it is plugged back in', async () => {
+    const transport = new MockHIDTransport([CB1_DEVICE]);
+    const rig = await startCB1(transport, { actions: { cruise: record('Cruise') }, lifecycle });
+
+    transport.unplug('mock-0');
+    await rig.settle();
+    assert.equal(rig.manager.isDeviceConnected(), false);
+
+    const plugged = transport.plug(CB1_DEVICE);
+    await rig.settle();
+    assert.equal(rig.manager.isDeviceConnected(), true);
+    assert.equal(rig.manager.getDeviceInfo()?.path, plugged.path);
+
+    const box = transport.getConnection(plugged.path!)!;
+    box.feed(IDLE);
+    box.feed(CRUISE);
+    await rig.settle();
+
+    assert.deepEqual(rig.dispatched.map(entry => entry.trigger), ['connected', 'disconnected', 'connected', 'press']);
+  });
+
+  it('stays disconnected with reconnecting turned off', async () => {
+    const transport = new MockHIDTransport([CB1_DEVICE]);
+    const rig = await startCB1(transport, { reconnect: { enabled: false } });
+
+    transport.unplug('mock-0');
+    transport.plug(CB1_DEVICE);
+    await rig.settle();
+
+    assert.equal(rig.manager.isDeviceConnected(), false);
+  });
+
+  it('disconnects and gives the device up even when closing it fails', async () => {
+    const transport = new MockHIDTransport([CB1_DEVICE]);
+    const claimedPaths = new Set<string>();
+    const rig = await startCB1(transport, { lifecycle }, { claimedPaths });
+    mock.method(transport.getConnection('mock-0')!, 'close', () => {
+      throw new Error('device already gone');
+    });
+
+    assert.doesNotThrow(() => rig.manager.disconnect());
+    assert.equal(rig.manager.isDeviceConnected(), false);
+    assert.equal(claimedPaths.size, 0);
+  });
+});
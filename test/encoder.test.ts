@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RotaryEncoder } from '../src/parsers/encoder.js';
+
+describe('RotaryEncoder', () => {
+  it('only reports deltas without a range', () => {
+    const encoder = new RotaryEncoder({ step: 2 });
+
+    assert.deepEqual(encoder.turn(1, 0), { delta: 2, previousValue: null, value: null });
+    assert.deepEqual(encoder.turn(-1, 1000), { delta: -2, previousValue: null, value: null });
+  });
+
+  it('clamps at the ends of its range', () => {
+    const encoder = new RotaryEncoder({ min: 0, max: 3, initial: 2 });
+
+    assert.deepEqual([1, 1, 1].map((_, i) => encoder.turn(1, i * 1000).value), [3, 3, 3]);
+    assert.deepEqual([1, 1, 1, 1].map((_, i) => encoder.turn(-1, 5000 + i * 1000).value), [2, 1, 0, 0]);
+  });
+
+  it('wraps around in wrap mode', () => {
+    const encoder = new RotaryEncoder({ min: 1, max: 12, initial: 11, mode: 'wrap' });
+
+    assert.deepEqual([0, 1, 2].map(i => encoder.turn(1, i * 1000).value), [12, 1, 2]);
+    assert.deepEqual([0, 1, 2].map(i => encoder.turn(-1, 5000 + i * 1000).value), [1, 12, 11]);
+  });
+
+  it('starts at the initial value, kept inside the range', () => {
+    assert.equal(new RotaryEncoder({ min: 0, max: 100, initial: 50 }).getValue(), 50);
+    assert.equal(new RotaryEncoder({ min: 0, max: 100, initial: 500 }).getValue(), 100);
+    assert.equal(new RotaryEncoder({ min: 5, max: 10 }).getValue(), 5);
+    assert.throws(() => new RotaryEncoder({ min: 10, max: 10 }), /must be below max/);
+  });
+
+  it('speeds up fast turns up to the multiplier cap', () => {
+    const encoder = new RotaryEncoder({ min: 0, max: 100, initial: 50, acceleration: { threshold: 100, maxMultiplier: 4 } });
+
+    // The first detent has nothing to compare with
+    assert.equal(encoder.turn(1, 0).delta, 1);
+    assert.equal(encoder.turn(1, 50).delta, 2);
+    assert.equal(encoder.turn(1, 60).delta, 4);
+    assert.equal(encoder.turn(1, 260).delta, 1);
+    assert.equal(encoder.getValue(), 58);
+  });
+
+  it('forgets the last detent on reset', () => {
+    const encoder = new RotaryEncoder({ acceleration: { threshold: 100, maxMultiplier: 4 } });
+
+    encoder.turn(1, 0);
+    encoder.reset();
+    assert.equal(encoder.turn(-1, 10).delta, -1);
+  });
+});
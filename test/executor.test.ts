@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ActionExecutor, wait, type ActionJob } from '../src/actions/executor.js';
+import { logger, sleep } from './helpers.js';
+
+describe('ActionExecutor', () => {
+  let log: string[];
+
+  /**
+   * A job that logs when it starts and ends, or is cancelled
+   */
+  function job(name: string, ms: number): ActionJob {
+    return async signal => {
+      log.push(`${name} start`);
+      await wait(ms, signal);
+      log.push(signal.aborted ? `${name} cancelled` : `${name} end`);
+    };
+  }
+
+  function setup(config: ConstructorParameters<typeof ActionExecutor>[1] = {}): ActionExecutor {
+    log = [];
+    return new ActionExecutor(logger, config);
+  }
+
+  it('runs a parallel binding alongside its earlier run', async () => {
+    const executor = setup();
+    executor.submit('a', job('1', 40), 'parallel');
+    executor.submit('a', job('2', 40), 'parallel');
+    await executor.drain();
+
+    assert.deepEqual(log, ['1 start', '2 start', '1 end', '2 end']);
+  });
+
+  it('queues a run behind the one still busy, by default', async () => {
+    const executor = setup();
+    executor.submit('a', job('1', 40));
+    executor.submit('a', job('2', 10));
+    executor.submit('b', job('other', 10));
+    await executor.drain();
+
+    assert.deepEqual(log, ['1 start', 'other start', 'other end', '1 end', '2 start', '2 end']);
+  });
+
+  it('drops a run while the binding is busy', async () => {
+    const executor = setup({ defaultPolicy: 'drop' });
+    executor.submit('a', job('1', 40));
+    executor.submit('a', job('2', 10));
+    await executor.drain();
+    executor.submit('a', job('3', 10));
+    await executor.drain();
+
+    assert.deepEqual(log, ['1 start', '1 end', '3 start', '3 end']);
+  });
+
+  it('cancels the busy run on restart and starts the new one at once', async () => {
+    const executor = setup();
+    executor.submit('a', job('1', 1000), 'restart');
+    await sleep(10);
+    executor.submit('a', job('2', 10), 'restart');
+    await executor.drain();
+
+    assert.deepEqual(log, ['1 start', '2 start', '1 cancelled', '2 end']);
+  });
+
+  it('keeps to maxConcurrent, starting the rest in order', async () => {
+    const executor = setup({ maxConcurrent: 2 });
+    let running = 0;
+    let peak = 0;
+    const order: number[] = [];
+
+    for (let i = 0; i < 5; i++) {
+      executor.submit(`key${i}`, async () => {
+        order.push(i);
+        peak = Math.max(peak, ++running);
+        await sleep(20);
+        running--;
+      });
+    }
+    assert.deepEqual(executor.getCounts(), { running: 2, pending: 3 });
+    await executor.drain();
+
+    assert.equal(peak, 2);
+    assert.deepEqual(order, [0, 1, 2, 3, 4]);
+    assert.deepEqual(executor.getCounts(), { running: 0, pending: 0 });
+  });
+
+  it('cancels what is left after the drain timeout', async () => {
+    const executor = setup({ maxConcurrent: 1 });
+    executor.submit('a', job('slow', 5000));
+    executor.submit('b', job('waiting', 10));
+
+    const started = Date.now();
+    await executor.drain(50);
+
+    assert.ok(Date.now() - started < 1000, 'the drain ended soon after the timeout');
+    assert.deepEqual(log, ['slow start', 'slow cancelled']);
+    assert.deepEqual(executor.getCounts(), { running: 0, pending: 0 });
+  });
+
+  it('goes on after a failed job', async () => {
+    const executor = setup();
+    executor.submit('a', async () => {
+      throw new Error('boom');
+    });
+    executor.submit('a', job('next', 10));
+    await executor.drain();
+
+    assert.deepEqual(log, ['next start', 'next end']);
+  });
+});
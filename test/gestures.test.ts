@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockHIDTransport, type MockHIDConnection } from '../src/hid/mock-transport.js';
+import type { ActionBinding, GestureConfig } from '../src/types/index.js';
+import { CB1_DEVICE, CRUISE, IDLE, setupRigs, sleep, startCB1, type Rig } from './helpers.js';
+
+setupRigs();
+
+// Short enough to keep the tests quick, long enough to stay clear of the 50 ms debounce
+const TIMINGS: GestureConfig = { doubleTapWindow: 150, longPressThreshold: 200, repeatDelay: 200, repeatRate: 50 };
+
+describe('gestures on a mock CB1', () => {
+  let rig: Rig;
+  let box: MockHIDConnection;
+
+  async function connect(gestures: Partial<Record<'action' | 'tap' | 'doubleTap' | 'longPress' | 'repeat', true>>): Promise<void> {
+    const binding: ActionBinding = { name: 'Cruise', gestures: TIMINGS };
+    for (const gesture of Object.keys(gestures) as Array<keyof typeof gestures>) {
+      binding[gesture] = { type: 'record' };
+    }
+
+    const transport = new MockHIDTransport([CB1_DEVICE]);
+    rig = await startCB1(transport, { actions: { cruise: binding } });
+    box = transport.getConnection('mock-0')!;
+    box.feed(IDLE);
+    await sleep(10);
+  }
+
+  async function hold(ms: number): Promise<void> {
+    box.feed(CRUISE);
+    await sleep(ms);
+    box.feed(IDLE);
+  }
+
+  const fired = () => rig.dispatched.map(entry => entry.trigger);
+
+  it('taps on a short press', async () => {
+    await connect({ tap: true, longPress: true });
+
+    await hold(70);
+    await rig.settle();
+
+    assert.deepEqual(fired(), ['tap']);
+  });
+
+  it('double taps on two taps inside the window, without a tap', async () => {
+    await connect({ tap: true, doubleTap: true });
+
+    await hold(60);
+    await sleep(60);
+    await hold(60);
+    await rig.settle(250);
+
+    assert.deepEqual(fired(), ['doubleTap']);
+  });
+
+  it('waits out the double tap window before a single tap, with `action` as the tap', async () => {
+    await connect({ action: true, doubleTap: true });
+
+    await hold(60);
+    await sleep(60);
+    assert.deepEqual(fired(), []);
+
+    await rig.settle(250);
+    assert.deepEqual(fired(), ['tap']);
+  });
+
+  it('long presses once held past the threshold, and the release is not a tap', async () => {
+    await connect({ tap: true, longPress: true });
+
+    await hold(300);
+    await rig.settle();
+
+    assert.deepEqual(fired(), ['longPress']);
+  });
+
+  it('repeats while held and stops on release', async () => {
+    await connect({ tap: true, repeat: true });
+
+    await hold(400);
+    await rig.settle();
+    const repeats = fired().length;
+    await rig.settle();
+
+    assert.ok(repeats >= 2, `repeated ${repeats} times`);
+    assert.ok(fired().every(trigger => trigger === 'repeat'));
+    assert.equal(fired().length, repeats);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * A PXN CB1 on a mock or replay transport, run through HIDDeviceManager
+ * with a `record` action runner that keeps what every action was run for
+ */
+import { after, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ConsoleLogger } from '../src/utils/logger.js';
+import { ActionRegistry } from '../src/actions/index.js';
+import { ActionExecutor } from '../src/actions/executor.js';
+import { ParserRegistry } from '../src/parsers/index.js';
+import { loadProfiles } from '../src/profiles/index.js';
+import { HIDDeviceManager } from '../src/hid/device-manager.js';
+import type { HIDTransport } from '../src/hid/transport.js';
+import type { ActionBinding, Config, HIDDevice } from '../src/types/index.js';
+
+export const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+export const CB1 = { vendorId: 0x36E6, productId: 0x8001 };
+export const CB1_DEVICE: HIDDevice = { ...CB1, release: 0, interface: 0 };
+
+export const logger = new ConsoleLogger('error');
+export const parsers = new ParserRegistry(loadProfiles(join(ROOT, 'profiles')));
+
+/**
+ * A 6-byte CB1 report: report ID 1, then bytes 1 to 5
+ */
+export function report(bytes: Partial<Record<1 | 2 | 3 | 4 | 5, number>> = {}): number[] {
+  return [0x01, bytes[1] ?? 0, bytes[2] ?? 0, bytes[3] ?? 0, bytes[4] ?? 0, bytes[5] ?? 0];
+}
+
+export const IDLE = report();
+export const CRUISE = report({ 1: 0x02 });
+export const ESC = report({ 2: 0x01 });
+export const ENTER = report({ 2: 0x02 });
+export const ESC_ENTER = report({ 2: 0x03 });
+
+export interface Dispatched {
+  controlId: unknown;
+  bindingId: unknown;
+  trigger: unknown;
+  layer: unknown;
+  deviceId: unknown;
+  value: unknown;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * A binding whose action (or the given triggers' actions) records itself
+ */
+export function record(name: string, ...triggers: Array<'action' | 'press' | 'release' | 'change'>): ActionBinding {
+  const binding: ActionBinding = { name };
+  for (const trigger of triggers.length > 0 ? triggers : ['action' as const]) {
+    binding[trigger] = { type: 'record' };
+  }
+  return binding;
+}
+
+export interface Rig {
+  manager: HIDDeviceManager;
+  actionRegistry: ActionRegistry;
+  executor: ActionExecutor;
+  dispatched: Dispatched[];
+  // Wait out the debounce and trigger windows, then for the actions
+  settle(ms?: number): Promise<void>;
+}
+
+const managers: HIDDeviceManager[] = [];
+
+/**
+ * Mute the CB1 parser, which prints every change to stdout where the test
+ * runner reads its results from, and stop every manager at the end
+ */
+export function setupRigs(): void {
+  before(() => mock.method(console, 'log', () => {}));
+  after(() => {
+    managers.forEach(manager => manager.stop());
+    mock.restoreAll();
+  });
+}
+
+/**
+ * Start a manager for a CB1 on the transport
+ */
+export async function startCB1(
+  transport: HIDTransport,
+  overrides: Partial<Config> = {},
+  options: { executor?: ActionExecutor; claimedPaths?: Set<string>; dispatched?: Dispatched[] } = {}
+): Promise<Rig> {
+  const dispatched = options.dispatched ?? [];
+  const executor = options.executor ?? new ActionExecutor(logger);
+
+  const actionRegistry = new ActionRegistry(logger);
+  actionRegistry.register({
+    name: 'RecordActionRunner',
+    type: 'record',
+    async execute(_action, context = {}) {
+      const { controlId, bindingId, trigger, layer, deviceId, value } = context;
+      dispatched.push({ controlId, bindingId, trigger, layer, deviceId, value });
+    },
+  });
+
+  const profile = parsers.selectProfile(CB1);
+  assert.ok(profile?.name === 'PXN CB1', 'the CB1 profile matches');
+
+  const config: Config = {
+    device: { ...CB1, id: 'cb1' },
+    polling: { frequency: 10, debounce: 50 },
+    actions: {},
+    logging: { level: 'error', enableRawData: false },
+    reconnect: { initialDelay: 20, maxDelay: 40 },
+    ...overrides,
+  };
+
+  const manager = new HIDDeviceManager(config, logger, parsers.createParser(profile.parser, { profile }), actionRegistry, {
+    transport,
+    executor,
+    ...(options.claimedPaths && { claimedPaths: options.claimedPaths }),
+  });
+  managers.push(manager);
+  await manager.start();
+
+  return {
+    manager,
+    actionRegistry,
+    executor,
+    dispatched,
+    settle: async (ms = 150) => {
+      await sleep(ms);
+      await executor.drain();
+    },
+  };
+}
@@ -0,0 +1,159 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseReportDescriptor, readField } from '../src/parsers/hid-descriptor.js';
+import { createDescriptorProfile, DescriptorParser } from '../src/parsers/descriptor-parser.js';
+import type { ControlEvent, Logger } from '../src/types/index.js';
+
+// A gamepad with report ID 1: ten buttons and padding, a hat in a nibble
+// with another nibble of padding, signed X and Y, and a relative wheel
+const GAMEPAD = Buffer.from([
+  0x05, 0x01, 0x09, 0x05, 0xa1, 0x01, //   Usage Page (Generic Desktop), Usage (Gamepad), Collection (Application)
+  0x85, 0x01, //                           Report ID (1)
+  0x05, 0x09, 0x19, 0x01, 0x29, 0x0a, //   Usage Page (Button), Usage Minimum (1), Usage Maximum (10)
+  0x15, 0x00, 0x25, 0x01, //               Logical Minimum (0), Logical Maximum (1)
+  0x75, 0x01, 0x95, 0x0a, 0x81, 0x02, //   Report Size (1), Report Count (10), Input (Data, Variable)
+  0x75, 0x06, 0x95, 0x01, 0x81, 0x03, //   Report Size (6), Report Count (1), Input (Constant)
+  0x05, 0x01, 0x09, 0x39, //               Usage Page (Generic Desktop), Usage (Hat Switch)
+  0x15, 0x00, 0x25, 0x07, //               Logical Minimum (0), Logical Maximum (7)
+  0x46, 0x3b, 0x01, //                     Physical Maximum (315)
+  0x75, 0x04, 0x95, 0x01, 0x81, 0x42, //   Report Size (4), Report Count (1), Input (Data, Variable, Null State)
+  0x75, 0x04, 0x95, 0x01, 0x81, 0x03, //   Report Size (4), Report Count (1), Input (Constant)
+  0x09, 0x30, 0x09, 0x31, //               Usage (X), Usage (Y)
+  0x15, 0x81, 0x25, 0x7f, //               Logical Minimum (-127), Logical Maximum (127)
+  0x75, 0x08, 0x95, 0x02, 0x81, 0x02, //   Report Size (8), Report Count (2), Input (Data, Variable)
+  0x09, 0x38, //                           Usage (Wheel)
+  0x75, 0x08, 0x95, 0x01, 0x81, 0x06, //   Report Size (8), Report Count (1), Input (Data, Variable, Relative)
+  0xc0, //                                 End Collection
+]);
+
+/**
+ * A gamepad report: buttons as a bit mask, then hat, X, Y and wheel
+ */
+function gamepad(buttons = 0, hat = 8, x = 0, y = 0, wheel = 0): Buffer {
+  return Buffer.from([0x01, buttons & 0xff, buttons >> 8, hat, x & 0xff, y & 0xff, wheel & 0xff]);
+}
+
+describe('parseReportDescriptor', () => {
+  const layout = parseReportDescriptor(GAMEPAD);
+  const field = (id: string) => layout.fields.find(candidate => candidate.id === id);
+
+  it('lists the input fields with their positions, skipping padding', () => {
+    assert.equal(layout.usesReportIds, true);
+    assert.deepEqual(layout.fields.map(({ id, kind, bitOffset, bitSize }) => [id, kind, bitOffset, bitSize]), [
+      ...Array.from({ length: 10 }, (_, i) => [`button_${i + 1}`, 'button', i, 1]),
+      ['hat', 'hat', 16, 4],
+      ['x', 'axis', 24, 8],
+      ['y', 'axis', 32, 8],
+      ['wheel', 'axis', 40, 8],
+    ]);
+  });
+
+  it('keeps ranges, report IDs and relative axes', () => {
+    assert.deepEqual([field('x')?.logicalMin, field('x')?.logicalMax], [-127, 127]);
+    assert.deepEqual([field('hat')?.logicalMin, field('hat')?.logicalMax], [0, 7]);
+    assert.equal(field('wheel')?.relative, true);
+    assert.equal(field('x')?.relative, undefined);
+    assert.ok(layout.fields.every(candidate => candidate.reportId === 1));
+    assert.equal(field('button_4')?.name, 'Button 4');
+    assert.equal(field('y')?.name, 'Y Axis');
+  });
+
+  it('numbers fields that share a usage', () => {
+    const twoSliders = parseReportDescriptor(Buffer.from([
+      0x05, 0x01, 0x09, 0x36, 0x09, 0x36, 0x15, 0x00, 0x26, 0xff, 0x00, 0x75, 0x08, 0x95, 0x02, 0x81, 0x02,
+    ]));
+
+    assert.deepEqual(twoSliders.fields.map(({ id, logicalMax }) => [id, logicalMax]), [['slider', 255], ['slider_2', 255]]);
+    assert.equal(twoSliders.usesReportIds, false);
+  });
+
+  it('refuses a truncated descriptor', () => {
+    assert.throws(() => parseReportDescriptor(Buffer.from([0x05, 0x01, 0x26, 0xff])), /Truncated report descriptor item at byte 2/);
+  });
+});
+
+describe('readField', () => {
+  const layout = parseReportDescriptor(GAMEPAD);
+  const field = (id: string) => layout.fields.find(candidate => candidate.id === id)!;
+
+  it('reads bits across bytes and sign-extends signed ranges', () => {
+    const report = gamepad(0x204, 3, -5, 127).subarray(1);
+
+    assert.equal(readField(report, field('button_3')), 1);
+    assert.equal(readField(report, field('button_4')), 0);
+    assert.equal(readField(report, field('button_10')), 1);
+    assert.equal(readField(report, field('hat')), 3);
+    assert.equal(readField(report, field('x')), -5);
+    assert.equal(readField(report, field('y')), 127);
+  });
+
+  it('gives null for a field past the end of a short report', () => {
+    assert.equal(readField(Buffer.from([0, 0, 0]), field('x')), null);
+  });
+});
+
+describe('DescriptorParser', () => {
+  const messages: string[] = [];
+  const logger: Logger = {
+    debug: () => {},
+    info: message => messages.push(message),
+    warn: () => {},
+    error: () => {},
+  };
+
+  const changes = (events: ControlEvent[] | undefined) =>
+    (events ?? []).map(event => [event.controlId, event.kind, event.previousState, event.state]);
+
+  it('reads every bit as a button until it has a layout', () => {
+    const parser = new DescriptorParser(undefined, undefined, logger);
+    parser.parse(Buffer.from([0x00]));
+
+    assert.deepEqual(changes(parser.parse(Buffer.from([0x04])).controlEvents).map(([, kind, , state]) => [kind, state]), [
+      ['momentary', true],
+    ]);
+  });
+
+  it('decodes buttons, hats and axes once it has the descriptor, logging what it found', () => {
+    const parser = new DescriptorParser(undefined, undefined, logger);
+    parser.setReportDescriptor(GAMEPAD);
+
+    assert.deepEqual(messages, ['Report descriptor: 10 buttons, 3 axes, 1 hats (with report IDs)']);
+
+    assert.deepEqual(parser.parse(gamepad()).controlEvents, []);
+    assert.deepEqual(changes(parser.parse(gamepad(0x001, 2, 10)).controlEvents), [
+      ['button_1', 'momentary', false, true],
+      ['hat', 'hat', 'center', 'right'],
+      ['x', 'axis', 0, 10],
+    ]);
+    assert.deepEqual(changes(parser.parse(gamepad(0x000, 8, 10)).controlEvents), [
+      ['button_1', 'momentary', true, false],
+      ['hat', 'hat', 'right', 'center'],
+    ]);
+
+    assert.equal(parser.getControlStates().x, 10);
+    assert.deepEqual(parser.getAxisRanges(), { x: { min: -127, max: 127 }, y: { min: -127, max: 127 } });
+    assert.deepEqual(parser.getControls().find(control => control.id === 'hat')?.positions?.length, 9);
+  });
+
+  it('keeps a layout from its profile over the device descriptor', () => {
+    const layout = parseReportDescriptor(GAMEPAD);
+    const parser = new DescriptorParser(undefined, layout, logger);
+    parser.setReportDescriptor(Buffer.from([0x05, 0x09, 0x19, 0x01, 0x29, 0x01, 0x75, 0x01, 0x95, 0x01, 0x81, 0x02]));
+
+    assert.equal(parser.getLayout(), layout);
+  });
+
+  it('builds a starting profile from a layout', () => {
+    const layout = parseReportDescriptor(GAMEPAD);
+    const profile = createDescriptorProfile(
+      { vendorId: 0x1234, productId: 0xabcd, product: 'Pad', release: 0, interface: 0 },
+      layout
+    );
+
+    assert.equal(profile.name, 'Pad');
+    assert.deepEqual(profile.match, { vendorId: 0x1234, productId: 0xabcd, interface: 0 });
+    assert.equal(profile.parser, 'DescriptorParser');
+    assert.deepEqual(profile.actions?.button_1, { name: 'Button 1', action: 'log' });
+    assert.deepEqual(profile.actions?.x, { name: 'X Axis', change: 'log' });
+  });
+});
@@ -0,0 +1,112 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { HttpActionRunner, HttpRequestError } from '../src/actions/index.js';
+import type { Logger } from '../src/types/index.js';
+
+interface Received {
+  method: string | undefined;
+  url: string | undefined;
+  contentType: string | undefined;
+  body: string;
+}
+
+describe('HttpActionRunner', () => {
+  const lines: string[] = [];
+  const logger: Logger = {
+    debug: () => {},
+    info: message => lines.push(message),
+    warn: message => lines.push(message),
+    error: message => lines.push(message),
+  };
+  const runner = new HttpActionRunner(logger);
+
+  const received: Received[] = [];
+  // Statuses the server answers with, one per request, then 200
+  let statuses: number[] = [];
+  let server: Server;
+  let base: string;
+
+  before(async () => {
+    server = createServer((request: IncomingMessage, response: ServerResponse) => {
+      let body = '';
+      request.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      request.on('end', () => {
+        received.push({ method: request.method, url: request.url, contentType: request.headers['content-type'], body });
+        if (request.url === '/slow') return;
+        response.writeHead(statuses.shift() ?? 200).end('done');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  beforeEach(() => {
+    lines.length = 0;
+    received.length = 0;
+    statuses = [];
+  });
+
+  it('fills the url and body from the context and logs the request once', async () => {
+    const result = await runner.execute({
+      type: 'http',
+      url: `${base}/press/{{controlId}}`,
+      body: { control: '{{controlId}}' },
+    }, { controlId: 'abs up' });
+
+    assert.deepEqual(result, { status: 200, statusText: 'OK', body: 'done', attempts: 1 });
+    assert.deepEqual(received, [
+      { method: 'POST', url: '/press/abs%20up', contentType: 'application/json', body: '{"control":"abs up"}' },
+    ]);
+    assert.deepEqual(lines, [`HTTP POST ${base}/press/abs%20up: 200`]);
+  });
+
+  it('retries a server error with one line per attempt', async () => {
+    statuses = [503];
+    const result = await runner.execute({ type: 'http', url: `${base}/flaky`, retries: 2, retryDelay: 10 });
+
+    assert.equal(result?.attempts, 2);
+    assert.deepEqual(lines, [
+      `HTTP GET ${base}/flaky: 503 Service Unavailable, retrying in 10 ms (1/2)`,
+      `HTTP GET ${base}/flaky: 200`,
+    ]);
+  });
+
+  it('fails at once on a status a retry would not change', async () => {
+    statuses = [404];
+
+    await assert.rejects(runner.execute({ type: 'http', url: `${base}/missing`, retries: 2, retryDelay: 10 }), (error: unknown) => {
+      assert.ok(error instanceof HttpRequestError);
+      assert.deepEqual([error.status, error.attempts], [404, 1]);
+      return true;
+    });
+    assert.equal(received.length, 1);
+  });
+
+  it('takes the statuses it is told to expect', async () => {
+    statuses = [404];
+    const result = await runner.execute({ type: 'http', url: `${base}/gone`, method: 'delete', expectStatus: [404] });
+
+    assert.equal(result?.status, 404);
+    assert.equal(received[0]?.method, 'DELETE');
+  });
+
+  it('gives up on an attempt after the timeout', async () => {
+    await assert.rejects(runner.execute({ type: 'http', url: `${base}/slow`, timeout: 50 }), /timed out after 50 ms/);
+  });
+
+  it('stops without an error once cancelled', async () => {
+    const controller = new AbortController();
+    const running = runner.execute({ type: 'http', url: `${base}/slow` }, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+
+    assert.equal(await running, undefined);
+    assert.deepEqual(lines, [`HTTP GET ${base}/slow cancelled`]);
+  });
+});
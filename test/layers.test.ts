@@ -0,0 +1,137 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LayerManager } from '../src/bindings/layers.js';
+import { MockHIDTransport, type MockHIDConnection } from '../src/hid/mock-transport.js';
+import type { ControlEvent, LayerConfig } from '../src/types/index.js';
+import { CB1_DEVICE, record, report, setupRigs, sleep, startCB1, type Rig } from './helpers.js';
+
+setupRigs();
+
+const LAYERS: LayerConfig = {
+  selectors: ['three_way_3', 'kill_switch'],
+  layers: [
+    {
+      name: 'stream',
+      when: { three_way_3: 'up' },
+      onEnter: { type: 'record' },
+      onExit: { type: 'record' },
+      actions: { cruise: record('Start Recording') },
+    },
+    {
+      name: 'pit',
+      when: { three_way_3: 'down', kill_switch: true },
+      actions: { cruise: record('Request Fuel') },
+    },
+  ],
+};
+
+// three_way_3 sits in the low two bits of byte 3, the Kill Switch is bit 3 of byte 2
+const SWITCH_UP = 0x01;
+const SWITCH_DOWN = 0x02;
+const KILL = 0x08;
+
+function change(controlId: string, state: ControlEvent['state']): ControlEvent {
+  return { controlId, kind: 'three-way', type: 'change', previousState: null, state, timestamp: 0, deviceId: 'test' };
+}
+
+describe('LayerManager', () => {
+  it('picks the first layer whose positions all hold', () => {
+    const layers = new LayerManager(LAYERS);
+    layers.seed({ three_way_3: 'home', kill_switch: true });
+    assert.equal(layers.getActiveLayer(), null);
+
+    assert.equal(layers.apply(change('three_way_3', 'down'))?.current?.name, 'pit');
+    assert.equal(layers.apply(change('three_way_3', 'up'))?.current?.name, 'stream');
+    assert.equal(layers.apply(change('kill_switch', false)), null);
+    assert.equal(layers.apply(change('esc', true)), null);
+  });
+
+  it('refuses a layer that depends on a control that is not a selector', () => {
+    assert.throws(
+      () => new LayerManager({ selectors: [], layers: [{ name: 'odd', when: { esc: true }, actions: {} }] }),
+      /Layer odd depends on esc, which is not a layer selector/
+    );
+  });
+});
+
+describe('layers on a mock CB1', () => {
+  let rig: Rig;
+  let box: MockHIDConnection;
+
+  async function connect(baseline: { 2?: number; 3?: number } = {}): Promise<void> {
+    const transport = new MockHIDTransport([CB1_DEVICE]);
+    rig = await startCB1(transport, {
+      actions: { cruise: record('Cruise'), esc: record('Esc') },
+      layers: LAYERS,
+    });
+    box = transport.getConnection('mock-0')!;
+    box.feed(report(baseline));
+    await sleep(10);
+  }
+
+  function press(control: { 1?: number; 2?: number }, held: { 2?: number; 3?: number }): void {
+    box.feed(report({ ...held, 1: control[1] ?? 0, 2: (held[2] ?? 0) | (control[2] ?? 0) }));
+    box.feed(report(held));
+  }
+
+  const fired = () => rig.dispatched.map(({ bindingId, trigger, layer }) => [bindingId, trigger, layer]);
+
+  it('runs the active layer\'s binding, falling through to the base for the rest', async () => {
+    await connect();
+
+    box.feed(report({ 3: SWITCH_UP }));
+    await rig.settle();
+    press({ 1: 0x02 }, { 3: SWITCH_UP });
+    await rig.settle();
+    press({ 2: 0x01 }, { 3: SWITCH_UP });
+    await rig.settle();
+
+    assert.deepEqual(fired(), [
+      [undefined, 'enter', 'stream'],
+      ['cruise', 'press', 'stream'],
+      ['esc', 'press', undefined],
+    ]);
+  });
+
+  it('goes back to the base bindings once the switch leaves the layer, running its exit action', async () => {
+    await connect();
+
+    box.feed(report({ 3: SWITCH_UP }));
+    await rig.settle();
+    box.feed(report());
+    await rig.settle();
+    press({ 1: 0x02 }, {});
+    await rig.settle();
+
+    assert.deepEqual(fired(), [
+      [undefined, 'enter', 'stream'],
+      [undefined, 'exit', 'base'],
+      ['cruise', 'press', undefined],
+    ]);
+  });
+
+  it('needs every position of a layer, across selectors', async () => {
+    await connect({ 3: SWITCH_DOWN });
+
+    press({ 1: 0x02 }, { 3: SWITCH_DOWN });
+    await rig.settle();
+    box.feed(report({ 2: KILL, 3: SWITCH_DOWN }));
+    await rig.settle();
+    press({ 1: 0x02 }, { 2: KILL, 3: SWITCH_DOWN });
+    await rig.settle();
+
+    assert.deepEqual(fired(), [
+      ['cruise', 'press', undefined],
+      ['cruise', 'press', 'pit'],
+    ]);
+  });
+
+  it('starts in the layer the switches were already in', async () => {
+    await connect({ 3: SWITCH_UP });
+
+    press({ 1: 0x02 }, { 3: SWITCH_UP });
+    await rig.settle();
+
+    assert.deepEqual(fired(), [['cruise', 'press', 'stream']]);
+  });
+});
@@ -0,0 +1,142 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ActionRegistry } from '../src/actions/index.js';
+import type { MacroAction, MacroDefinition, MacroStep } from '../src/types/index.js';
+import { logger } from './helpers.js';
+
+interface Note {
+  label: unknown;
+  iteration: unknown;
+  at: number;
+}
+
+describe('MacroActionRunner', () => {
+  let notes: Note[];
+  let started: number;
+
+  function registry(macros: Record<string, MacroDefinition | MacroStep[]> = {}): ActionRegistry {
+    const actions = new ActionRegistry(logger, macros);
+    actions.register({
+      name: 'NoteActionRunner',
+      type: 'note',
+      fromShorthand: label => ({ type: 'note', label }),
+      async execute(action, context = {}) {
+        notes.push({ label: action.label, iteration: context.iteration, at: Date.now() - started });
+      },
+    });
+    actions.register({
+      name: 'FailActionRunner',
+      type: 'fail',
+      async execute() {
+        throw new Error('boom');
+      },
+    });
+    return actions;
+  }
+
+  function run(actions: ActionRegistry, macro: Omit<MacroAction, 'type'>, context: Record<string, unknown> = {}): Promise<unknown> {
+    started = Date.now();
+    return actions.executeAction({ type: 'macro', ...macro }, context);
+  }
+
+  const labels = (): unknown[] => notes.map(note => note.label);
+
+  beforeEach(() => {
+    notes = [];
+  });
+
+  it('runs steps in order, waiting between them', async () => {
+    await run(registry(), { steps: ['note:a', { wait: 60 }, 'note:b'] });
+
+    assert.deepEqual(labels(), ['a', 'b']);
+    assert.ok(notes[1].at - notes[0].at >= 55, `waited ${notes[1].at - notes[0].at}ms`);
+  });
+
+  it('repeats steps with the iteration in the context', async () => {
+    await run(registry(), { steps: [{ repeat: 3, interval: 20, steps: ['note:tick'] }] });
+
+    assert.deepEqual(notes.map(note => note.iteration), [1, 2, 3]);
+    assert.ok(notes[2].at - notes[0].at >= 35);
+  });
+
+  it('runs parallel branches at once and waits for all of them', async () => {
+    await run(registry(), {
+      steps: [
+        { parallel: [{ type: 'macro', steps: [{ wait: 60 }, 'note:slow'] }, 'note:fast'] },
+        'note:after',
+      ],
+    });
+
+    assert.deepEqual(labels(), ['fast', 'slow', 'after']);
+  });
+
+  it('calls macros defined by name', async () => {
+    const actions = registry({ greet: ['note:hello'], twice: { steps: [{ call: 'greet' }, { call: 'greet' }] } });
+    await run(actions, { name: 'twice' });
+
+    assert.deepEqual(labels(), ['hello', 'hello']);
+  });
+
+  it('aborts on a failed step', async () => {
+    await assert.rejects(run(registry(), { steps: ['note:a', { type: 'fail' }, 'note:b'] }), /step 2 failed: boom/);
+    assert.deepEqual(labels(), ['a']);
+  });
+
+  it('goes on past a failure with onError: continue', async () => {
+    await run(registry(), { steps: ['note:a', { type: 'fail', onError: 'continue' }, 'note:b'] });
+    assert.deepEqual(labels(), ['a', 'b']);
+
+    notes = [];
+    await run(registry(), { onError: 'continue', steps: [{ type: 'fail' }, 'note:b'] });
+    assert.deepEqual(labels(), ['b']);
+  });
+
+  it('runs a fallback in place of a failed step', async () => {
+    await run(registry(), { steps: [{ type: 'fail', fallback: 'note:instead' }, 'note:b'] });
+    assert.deepEqual(labels(), ['instead', 'b']);
+  });
+
+  it('fails when a parallel branch fails, after the others finish', async () => {
+    await assert.rejects(run(registry(), {
+      steps: [{ parallel: [{ type: 'fail' }, { type: 'macro', steps: [{ wait: 30 }, 'note:other'] }] }],
+    }), /boom/);
+    assert.deepEqual(labels(), ['other']);
+  });
+
+  it('stops before the next step once cancelled', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 30);
+
+    await run(registry(), { steps: ['note:a', { wait: 1000 }, 'note:b'] }, { signal: controller.signal });
+
+    assert.deepEqual(labels(), ['a']);
+    assert.ok(Date.now() - started < 500);
+  });
+
+  it('refuses macros that call themselves', () => {
+    const actions = registry({ a: [{ call: 'b' }], b: ['note:x', { call: 'a' }] });
+
+    assert.throws(() => actions.validate({ type: 'macro', name: 'a' }), /macro a calls itself: a -> b -> a/);
+    assert.throws(() => actions.validate('macro:b'), /macro b calls itself: b -> a -> b/);
+  });
+
+  it('refuses malformed steps and unknown macros', () => {
+    const actions = registry();
+
+    assert.throws(() => actions.validate({ type: 'macro', steps: [] }), /non-empty "steps"/);
+    assert.throws(() => actions.validate({ type: 'macro', steps: [{ repeat: 0, steps: ['note:a'] }] }), /step 1: "repeat"/);
+    assert.throws(() => actions.validate({ type: 'macro', steps: [{ call: 'missing' }] }), /unknown macro: missing/);
+    assert.throws(() => actions.validate({ type: 'macro', steps: [{ type: 'fail', onError: 'retry' as never }] }), /"onError"/);
+  });
+
+  it('stops runaway nesting', async () => {
+    // A chain with no cycle, only longer than the call depth allows
+    const macros: Record<string, MacroStep[]> = { m20: ['note:bottom'] };
+    for (let i = 0; i < 20; i++) {
+      macros[`m${i}`] = [{ call: `m${i + 1}` }];
+    }
+
+    await assert.rejects(run(registry(macros), { name: 'm0' }), /nested deeper than 16/);
+    assert.deepEqual(labels(), []);
+  });
+});
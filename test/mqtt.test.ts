@@ -0,0 +1,150 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type AddressInfo, type Server } from 'node:net';
+import Aedes from 'aedes';
+import { connectAsync, type MqttClient } from 'mqtt';
+import { MqttBridge, topicLevel, topicMatches } from '../src/mqtt/index.js';
+import { MockHIDTransport, type MockHIDConnection } from '../src/hid/mock-transport.js';
+import { CB1_DEVICE, CRUISE, IDLE, logger, record, report, setupRigs, sleep, startCB1, type Rig } from './helpers.js';
+
+setupRigs();
+
+const LIGHT_ON = report({ 1: 0x40 });
+
+describe('topics', () => {
+  it('matches wildcards', () => {
+    assert.ok(topicMatches('cmd/+/press', 'cmd/esc/press'));
+    assert.ok(topicMatches('cmd/#', 'cmd/esc/press'));
+    assert.ok(!topicMatches('cmd/+', 'cmd/esc/press'));
+    assert.ok(!topicMatches('cmd/+/press', 'cmd/esc'));
+  });
+
+  it('makes ids safe to use as a level', () => {
+    assert.equal(topicLevel('abs/up #1'), 'abs_up__1');
+  });
+});
+
+describe('MqttBridge', () => {
+  const broker = new Aedes();
+  let server: Server;
+  let url: string;
+  let rig: Rig;
+  let box: MockHIDConnection;
+  let bridge: MqttBridge;
+  let watcher: MqttClient;
+  const messages: Array<{ topic: string; payload: string; retain: boolean }> = [];
+
+  before(async () => {
+    server = createServer(broker.handle);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `mqtt://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const transport = new MockHIDTransport([CB1_DEVICE]);
+    rig = await startCB1(transport, { actions: { cruise: record('Cruise') } });
+    box = transport.getConnection('mock-0')!;
+    box.feed(IDLE);
+    await sleep(10);
+
+    bridge = new MqttBridge({
+      url,
+      homeAssistant: true,
+      subscriptions: { 'cmd/+/press': { type: 'record' } },
+    }, logger, rig.actionRegistry, rig.executor);
+    bridge.attach(rig.manager);
+    bridge.start();
+    await waitFor(() => bridge.isConnected());
+    await sleep(100);
+
+    // Joins after the bridge, so it only sees what the broker kept
+    watcher = await connectAsync(url);
+    watcher.on('message', (topic, payload, packet) => messages.push({ topic, payload: payload.toString(), retain: packet.retain }));
+    await watcher.subscribeAsync('#');
+  });
+
+  after(async () => {
+    await watcher?.endAsync();
+    await bridge?.stop();
+    await new Promise<void>(resolve => broker.close(() => resolve()));
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  async function waitFor(check: () => boolean): Promise<void> {
+    for (let waited = 0; !check() && waited < 2000; waited += 10) {
+      await sleep(10);
+    }
+    assert.ok(check(), 'timed out');
+  }
+
+  function last(topic: string): { payload: string; retain: boolean } | undefined {
+    return messages.filter(message => message.topic === topic).at(-1);
+  }
+
+  it('keeps the availability and every switch position retained', async () => {
+    await waitFor(() => last('hid-monitor/cb1/light/state') !== undefined);
+
+    assert.deepEqual(last('hid-monitor/status'), { topic: 'hid-monitor/status', payload: 'online', retain: true });
+    assert.deepEqual(last('hid-monitor/cb1/status'), { topic: 'hid-monitor/cb1/status', payload: 'online', retain: true });
+    assert.equal(last('hid-monitor/cb1/light/state')?.payload, 'OFF');
+    assert.equal(last('hid-monitor/cb1/three_way_1/state')?.retain, true);
+    assert.equal(last('hid-monitor/cb1/abs/state')?.payload, '50');
+
+    // Buttons only send events
+    assert.equal(last('hid-monitor/cb1/cruise/state'), undefined);
+  });
+
+  it('publishes Home Assistant discovery configs', async () => {
+    const topic = 'homeassistant/binary_sensor/hid-monitor_cb1/light/config';
+    await waitFor(() => last(topic) !== undefined);
+
+    const light = JSON.parse(last(topic)!.payload);
+    assert.equal(last(topic)?.retain, true);
+    assert.equal(light.state_topic, 'hid-monitor/cb1/light/state');
+    assert.equal(light.unique_id, 'hid-monitor_cb1_light');
+    assert.deepEqual(light.device.identifiers, ['hid-monitor_cb1']);
+
+    const cruise = JSON.parse(last('homeassistant/event/hid-monitor_cb1/cruise/config')!.payload);
+    assert.equal(cruise.state_topic, 'hid-monitor/cb1/cruise/event');
+    assert.deepEqual(cruise.event_types, ['press', 'release']);
+
+    const abs = JSON.parse(last('homeassistant/sensor/hid-monitor_cb1/abs/config')!.payload);
+    assert.equal(abs.state_class, 'measurement');
+  });
+
+  it('publishes control events and state changes', async () => {
+    box.feed(CRUISE);
+    await sleep(70);
+    box.feed(LIGHT_ON);
+    await waitFor(() => last('hid-monitor/cb1/light/state')?.payload === 'ON');
+
+    const events = messages
+      .filter(message => message.topic === 'hid-monitor/cb1/cruise/event')
+      .map(message => JSON.parse(message.payload));
+    assert.deepEqual(events.map(event => [event.event_type, event.state]), [['press', true], ['release', false]]);
+
+    // The broker keeps the new position for clients that come later
+    const late = await connectAsync(url);
+    const retained = new Promise<string>(resolve => late.on('message', (_topic, payload) => resolve(payload.toString())));
+    await late.subscribeAsync('hid-monitor/cb1/light/state');
+    assert.equal(await retained, 'ON');
+    await late.endAsync();
+  });
+
+  it('runs the action for a subscribed topic', async () => {
+    rig.dispatched.length = 0;
+    await watcher.publishAsync('cmd/esc/press', '{"level":3}');
+    await waitFor(() => rig.dispatched.length > 0);
+
+    assert.deepEqual(rig.dispatched, [{
+      controlId: undefined,
+      bindingId: 'mqtt:cmd/+/press',
+      trigger: 'mqtt',
+      layer: undefined,
+      deviceId: undefined,
+      value: { level: 3 },
+    }]);
+
+    await watcher.publishAsync('cmd/esc/release', '1');
+    await sleep(50);
+    assert.equal(rig.dispatched.length, 1);
+  });
+});
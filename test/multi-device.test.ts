@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { defaultDeviceId } from '../src/config/index.js';
+import { MockHIDTransport } from '../src/hid/mock-transport.js';
+import type { DeviceConfig } from '../src/types/index.js';
+import { CB1, CB1_DEVICE, CRUISE, IDLE, record, setupRigs, sleep, startCB1, type Dispatched } from './helpers.js';
+
+setupRigs();
+
+describe('several CB1s at once', () => {
+  const actions = { cruise: record('Cruise') };
+
+  async function startBoth(left: Partial<DeviceConfig>, right: Partial<DeviceConfig>) {
+    const transport = new MockHIDTransport([
+      { ...CB1_DEVICE, serialNumber: 'L' },
+      { ...CB1_DEVICE, serialNumber: 'R' },
+    ]);
+    const claimedPaths = new Set<string>();
+    const dispatched: Dispatched[] = [];
+
+    // The right-hand box starts first, so pinning has to keep it off the left one
+    const rightRig = await startCB1(transport, { device: { ...CB1, id: 'right', ...right }, actions }, { claimedPaths, dispatched });
+    const leftRig = await startCB1(transport, { device: { ...CB1, id: 'left', ...left }, actions }, { claimedPaths, dispatched });
+
+    return { transport, claimedPaths, dispatched, leftRig, rightRig };
+  }
+
+  it('gives each manager a box of its own', async () => {
+    const { claimedPaths, leftRig, rightRig } = await startBoth({}, {});
+
+    assert.equal(rightRig.manager.getDeviceInfo()?.path, 'mock-0');
+    assert.equal(leftRig.manager.getDeviceInfo()?.path, 'mock-1');
+    assert.deepEqual([...claimedPaths].sort(), ['mock-0', 'mock-1']);
+  });
+
+  it('opens the box with the configured serial number', async () => {
+    const { leftRig, rightRig } = await startBoth({ serialNumber: 'L' }, { serialNumber: 'R' });
+
+    assert.equal(rightRig.manager.getDeviceInfo()?.serialNumber, 'R');
+    assert.equal(leftRig.manager.getDeviceInfo()?.serialNumber, 'L');
+  });
+
+  it('tags each press with the id of the box it came from', async () => {
+    const { transport, dispatched, leftRig } = await startBoth({ serialNumber: 'L' }, { serialNumber: 'R' });
+
+    for (const path of ['mock-0', 'mock-1']) {
+      transport.getConnection(path)!.feed(IDLE);
+    }
+    await sleep(10);
+    transport.getConnection('mock-1')!.feed(CRUISE);
+    await sleep(70);
+    transport.getConnection('mock-0')!.feed(CRUISE);
+    await leftRig.settle();
+
+    assert.deepEqual(dispatched.map(entry => entry.deviceId), ['right', 'left']);
+  });
+
+  it('lets a box that is unplugged go to the manager waiting for it', async () => {
+    const { transport, claimedPaths, rightRig } = await startBoth({ serialNumber: 'L' }, { serialNumber: 'R' });
+
+    transport.unplug('mock-1');
+    await rightRig.settle();
+    assert.deepEqual([...claimedPaths], ['mock-0']);
+
+    const plugged = transport.plug({ ...CB1_DEVICE, serialNumber: 'R' });
+    await rightRig.settle();
+    assert.equal(rightRig.manager.getDeviceInfo()?.path, plugged.path);
+  });
+});
+
+describe('defaultDeviceId', () => {
+  it('is the VID:PID, qualified by the serial number or path', () => {
+    assert.equal(defaultDeviceId({ ...CB1 }), '36e6:8001');
+    assert.equal(defaultDeviceId({ ...CB1, serialNumber: 'A1', path: '/dev/hidraw3' }), '36e6:8001:A1');
+    assert.equal(defaultDeviceId({ ...CB1, path: '/dev/hidraw3' }), '36e6:8001:/dev/hidraw3');
+  });
+});
@@ -0,0 +1,143 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSocket, type Socket } from 'node:dgram';
+import type { AddressInfo } from 'node:net';
+import { encodeOscMessage, OscClient, toOscValue } from '../src/osc/index.js';
+import { OscActionRunner } from '../src/actions/osc.js';
+import { MockHIDTransport } from '../src/hid/mock-transport.js';
+import type { HIDDeviceManager } from '../src/hid/device-manager.js';
+import { CB1_DEVICE, CRUISE, IDLE, logger, record, report, setupRigs, sleep, startCB1 } from './helpers.js';
+
+setupRigs();
+
+describe('encodeOscMessage', () => {
+  it('pads the address and type tags to 4 bytes', () => {
+    assert.deepEqual(encodeOscMessage('/a'), Buffer.from('/a\0\0,\0\0\0', 'binary'));
+    assert.deepEqual(encodeOscMessage('/abc'), Buffer.from('/abc\0\0\0\0,\0\0\0', 'binary'));
+  });
+
+  it('encodes each argument type big-endian', () => {
+    const message = encodeOscMessage('/x', [
+      { tag: 'i', value: -2 },
+      { tag: 'f', value: 0.5 },
+      { tag: 'd', value: 2 ** 40 },
+      { tag: 's', value: 'hi' },
+      { tag: 'T' },
+      { tag: 'N' },
+    ]);
+
+    assert.deepEqual(message, Buffer.concat([
+      Buffer.from('/x\0\0,ifdsTN\0', 'binary'),
+      Buffer.from([0xff, 0xff, 0xff, 0xfe]),
+      Buffer.from([0x3f, 0x00, 0x00, 0x00]),
+      Buffer.from([0x42, 0x70, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00]),
+      Buffer.from('hi\0\0', 'binary'),
+    ]));
+  });
+
+  it('refuses ints outside the 32-bit range', () => {
+    assert.throws(() => encodeOscMessage('/x', [{ tag: 'i', value: 2 ** 31 }]), /out of range/);
+  });
+});
+
+describe('toOscValue', () => {
+  it('picks a type for plain values', () => {
+    assert.deepEqual(toOscValue(3), { tag: 'i', value: 3 });
+    assert.deepEqual(toOscValue(-0x80000000), { tag: 'i', value: -0x80000000 });
+    assert.deepEqual(toOscValue(1_700_000_000_000), { tag: 'd', value: 1_700_000_000_000 });
+    assert.deepEqual(toOscValue(0.25), { tag: 'f', value: 0.25 });
+    assert.deepEqual(toOscValue(true), { tag: 'T' });
+    assert.deepEqual(toOscValue(null), { tag: 'N' });
+    assert.deepEqual(toOscValue('up'), { tag: 's', value: 'up' });
+  });
+});
+
+describe('OscClient', () => {
+  let receiver: Socket;
+  let port: number;
+  const received: Buffer[] = [];
+
+  before(async () => {
+    receiver = createSocket('udp4');
+    receiver.on('message', message => received.push(message));
+    await new Promise<void>(resolve => receiver.bind(0, '127.0.0.1', resolve));
+    port = (receiver.address() as AddressInfo).port;
+  });
+
+  after(() => receiver.close());
+
+  async function nextMessages(count: number): Promise<Buffer[]> {
+    for (let waited = 0; received.length < count && waited < 1000; waited += 10) {
+      await sleep(10);
+    }
+    return received.splice(0);
+  }
+
+  it('forwards control events from a device', async () => {
+    const client = new OscClient({ forward: { host: '127.0.0.1', port } }, logger);
+    const transport = new MockHIDTransport([CB1_DEVICE]);
+    const rig = await startCB1(transport, { actions: { cruise: record('Cruise') } });
+    client.attach(rig.manager);
+
+    const box = transport.getConnection('mock-0')!;
+    box.feed(IDLE);
+    await sleep(10);
+    received.length = 0;
+
+    box.feed(CRUISE);
+    await sleep(70);
+    box.feed(IDLE);
+    await sleep(70);
+    box.feed(report({ 3: 0x20 }));
+    await sleep(70);
+    box.feed(IDLE);
+
+    const messages = await nextMessages(5);
+    client.stop();
+
+    assert.deepEqual(messages, [
+      encodeOscMessage('/cb1/button/cruise', [{ tag: 'i', value: 1 }]),
+      encodeOscMessage('/cb1/button/cruise', [{ tag: 'i', value: 0 }]),
+      encodeOscMessage('/cb1/knob/abs/up', [{ tag: 'i', value: 1 }]),
+      encodeOscMessage('/cb1/knob/abs', [{ tag: 'i', value: 1 }, { tag: 'i', value: 51 }]),
+      encodeOscMessage('/cb1/knob/abs/up', [{ tag: 'i', value: 0 }]),
+    ]);
+  });
+
+  it('sends a delta too large for an int as a double', async () => {
+    const client = new OscClient({ forward: { host: '127.0.0.1', port, prefix: '/box' } }, logger);
+    client.controlEvent({ deviceId: 'cb1' } as HIDDeviceManager, {
+      controlId: 'tc',
+      kind: 'encoder',
+      type: 'change',
+      previousState: 0,
+      state: 0,
+      timestamp: Date.now(),
+      deviceId: 'cb1',
+      delta: 2 ** 32,
+    });
+
+    const messages = await nextMessages(1);
+    client.stop();
+
+    assert.deepEqual(messages, [
+      encodeOscMessage('/box/knob/tc', [{ tag: 'd', value: 2 ** 32 }, { tag: 'i', value: 0 }]),
+    ]);
+  });
+
+  it('sends osc actions to a named target', async () => {
+    const client = new OscClient({ targets: { mixer: { host: '127.0.0.1', port } } }, logger);
+    const runner = new OscActionRunner(logger, client);
+
+    const action = runner.fromShorthand('mixer /ch/{{controlId}}/on 1 0.5 true');
+    runner.validate(action);
+    await runner.execute(action, { controlId: 'esc' });
+
+    const messages = await nextMessages(1);
+    client.stop();
+
+    assert.deepEqual(messages, [
+      encodeOscMessage('/ch/esc/on', [{ tag: 'i', value: 1 }, { tag: 'f', value: 0.5 }, { tag: 'T' }]),
+    ]);
+  });
+});
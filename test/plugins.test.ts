@@ -0,0 +1,122 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PluginManager } from '../src/plugins/index.js';
+import { ActionRegistry } from '../src/actions/index.js';
+import { ParserRegistry } from '../src/parsers/index.js';
+import type { Logger } from '../src/types/index.js';
+
+describe('PluginManager', () => {
+  let directory: string;
+  const messages: string[] = [];
+  const logger: Logger = {
+    debug: () => {},
+    info: message => messages.push(`info ${message}`),
+    warn: message => messages.push(`warn ${message}`),
+    error: message => messages.push(`error ${message}`),
+  };
+
+  function plugin(file: string, source: string): string {
+    const path = join(directory, file);
+    writeFileSync(path, source);
+    return path;
+  }
+
+  function load(modules: string[]): Promise<{ plugins: PluginManager; actions: ActionRegistry; parsers: ParserRegistry }> {
+    const actions = new ActionRegistry(logger);
+    const parsers = new ParserRegistry([]);
+    // A directory without plugin modules, so only the listed ones load
+    const plugins = new PluginManager({ dir: join(directory, 'none'), modules, config: { notes: { prefix: '>' } } }, logger, actions, parsers);
+
+    return plugins.load().then(() => ({ plugins, actions, parsers }));
+  }
+
+  before(() => {
+    directory = mkdtempSync(join(tmpdir(), 'hid-plugins-'));
+  });
+
+  after(() => rmSync(directory, { recursive: true, force: true }));
+
+  it('registers the runners and parsers a module exports, named after its file', async () => {
+    const path = plugin('shout.mjs', `
+      export const runners = [{ name: 'ShoutRunner', type: 'shout', execute: async action => action.text.toUpperCase() }];
+      export const parsers = { ShoutParser: () => ({ name: 'ShoutParser', parse: () => ({}) }) };
+    `);
+    const { plugins, actions, parsers } = await load([path]);
+
+    assert.deepEqual(plugins.getLoaded(), ['shout']);
+    assert.equal(await actions.executeAction({ type: 'shout', text: 'pit' } as never), 'PIT');
+    assert.ok(parsers.getParserNames().includes('ShoutParser'));
+  });
+
+  it('gives init() its config and a scoped logger, and registers what it adds', async () => {
+    const path = plugin('notes.mjs', `
+      export default {
+        name: 'notes',
+        init(context) {
+          context.logger.info('ready');
+          context.registerRunner({ type: 'note', execute: async action => context.config.prefix + action.text });
+        },
+      };
+    `);
+    const { actions } = await load([path]);
+
+    assert.equal(await actions.executeAction({ type: 'note', text: 'hi' } as never), '>hi');
+    assert.ok(messages.includes('info [plugin:notes] ready'), messages.join('\n'));
+  });
+
+  it('skips a plugin that is malformed, fails in init() or reuses a name, and loads the rest', async () => {
+    messages.length = 0;
+    const good = plugin('good.mjs', `export const runners = [{ type: 'good', execute: async () => 'ok' }];`);
+    const { plugins, actions } = await load([
+      plugin('empty.mjs', 'export const version = 1;'),
+      plugin('runnerless.mjs', `export const runners = [{ type: 'broken' }];`),
+      plugin('failing.mjs', `export default { init() { throw new Error('no token'); } };`),
+      good,
+      good,
+      join(directory, 'missing.mjs'),
+    ]);
+
+    assert.deepEqual(plugins.getLoaded(), ['good']);
+    assert.equal(actions.getRunner('broken'), undefined);
+    const errors = messages.filter(message => message.startsWith('error')).map(message => message.replace(directory, '<dir>'));
+    assert.deepEqual(errors.slice(0, 4), [
+      'error Skipping plugin <dir>/empty.mjs: the module exports no runners, parsers or init()',
+      'error Skipping plugin <dir>/runnerless.mjs: the broken runner needs an execute() function',
+      'error Skipping plugin <dir>/failing.mjs: no token',
+      'error Skipping plugin <dir>/good.mjs: a plugin named good is already loaded',
+    ]);
+    assert.match(errors[4] ?? '', /^error Skipping plugin <dir>\/missing\.mjs: /);
+    assert.equal(errors.length, 5);
+  });
+
+  it('warns when a plugin replaces a built-in runner', async () => {
+    messages.length = 0;
+    await load([plugin('quiet.mjs', `export const runners = [{ type: 'log', execute: async () => {} }];`)]);
+
+    assert.ok(messages.includes('warn Plugin quiet replaces the runner for "log" actions'), messages.join('\n'));
+  });
+
+  it('loads every module in the plugins directory in file name order and stops them in reverse', async () => {
+    const pluginsDir = mkdtempSync(join(directory, 'dir-'));
+    const stopped: string[] = [];
+    (globalThis as Record<string, unknown>).stoppedPlugins = stopped;
+    for (const name of ['b', 'a']) {
+      writeFileSync(join(pluginsDir, `${name}.mjs`), `
+        export const runners = [{ type: '${name}', execute: async () => {} }];
+        export function stop() { globalThis.stoppedPlugins.push('${name}'); }
+      `);
+    }
+    writeFileSync(join(pluginsDir, 'README.md'), 'not a plugin');
+
+    const plugins = new PluginManager({ dir: pluginsDir }, logger, new ActionRegistry(logger), new ParserRegistry([]));
+    await plugins.load();
+    assert.deepEqual(plugins.getLoaded(), ['a', 'b']);
+
+    await plugins.stop();
+    assert.deepEqual(stopped, ['b', 'a']);
+    delete (globalThis as Record<string, unknown>).stoppedPlugins;
+  });
+});
@@ -0,0 +1,112 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadProfiles, matchesDevice, matchScore, saveProfileCalibration, type DeviceProfile } from '../src/profiles/index.js';
+import { ParserRegistry } from '../src/parsers/index.js';
+import { CB1, parsers, ROOT } from './helpers.js';
+
+describe('matchScore', () => {
+  it('counts the fields that match and rejects any that differ', () => {
+    assert.equal(matchScore({}, { ...CB1 }), 0);
+    assert.equal(matchScore({ ...CB1 }, { ...CB1, interface: 0 }), 2);
+    assert.equal(matchScore({ ...CB1, interface: 0 }, { ...CB1, interface: 0 }), 3);
+    assert.equal(matchScore({ ...CB1, interface: 1 }, { ...CB1, interface: 0 }), -1);
+  });
+
+  it('neither counts nor rejects fields the device does not report', () => {
+    assert.equal(matchScore({ ...CB1, interface: 1 }, { ...CB1 }), 2);
+    assert.equal(matchesDevice(undefined, { ...CB1 }), true);
+    assert.equal(matchesDevice({ product: 'Other' }, { product: 'CB1' }), false);
+  });
+});
+
+describe('ParserRegistry.selectProfile', () => {
+  const profile = (name: string, match: DeviceProfile['match']): DeviceProfile => ({ name, match, parser: 'ButtonParser' });
+
+  it('picks the most specific matching profile', () => {
+    const registry = new ParserRegistry([
+      profile('any', {}),
+      profile('cb1 interface 0', { ...CB1, interface: 0 }),
+      profile('cb1', { ...CB1 }),
+      profile('other', { vendorId: 1 }),
+    ]);
+
+    assert.equal(registry.selectProfile({ ...CB1, interface: 0 })?.name, 'cb1 interface 0');
+    assert.equal(registry.selectProfile({ ...CB1, interface: 2 })?.name, 'cb1');
+    assert.equal(registry.selectProfile({ vendorId: 2, productId: 2 })?.name, 'any');
+    assert.equal(new ParserRegistry([profile('other', { vendorId: 1 })]).selectProfile({ ...CB1 }), null);
+  });
+
+  it('takes a profile by name over matching', () => {
+    assert.equal(parsers.selectProfile({ ...CB1 }, 'Generic HID Device')?.name, 'Generic HID Device');
+    assert.throws(() => parsers.selectProfile({ ...CB1 }, 'Missing'), /Unknown device profile: Missing/);
+  });
+
+  it('matches the bundled profiles', () => {
+    assert.equal(parsers.selectProfile({ ...CB1 })?.name, 'PXN CB1');
+    assert.equal(parsers.selectProfile({ vendorId: 0x046d, productId: 0xc21d })?.name, 'Generic HID Device');
+  });
+});
+
+describe('loadProfiles', () => {
+  let directory: string;
+  const warnings: string[] = [];
+
+  before(() => {
+    directory = mkdtempSync(join(tmpdir(), 'hid-profiles-'));
+    mock.method(console, 'warn', (message: string) => warnings.push(message));
+  });
+
+  after(() => {
+    mock.restoreAll();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('loads every profile in file name order, resolving control paths from the file', () => {
+    const profiles = join(directory, 'profiles');
+    mkdirSync(profiles);
+    writeFileSync(join(profiles, 'b.json'), JSON.stringify({ name: 'B', match: {}, parser: 'ButtonParser' }));
+    writeFileSync(join(profiles, 'a.json'), JSON.stringify({ name: 'A', match: {}, parser: 'ButtonParser', controls: 'controls/a.json' }));
+    writeFileSync(join(profiles, 'broken.json'), JSON.stringify({ name: 'No parser', match: {} }));
+    writeFileSync(join(profiles, 'notes.txt'), 'not a profile');
+
+    const loaded = loadProfiles(profiles);
+
+    assert.deepEqual(loaded.map(profile => profile.name), ['A', 'B']);
+    assert.equal(loaded[0]?.controls, join(profiles, 'controls', 'a.json'));
+    assert.equal(loaded[0]?.file, join(profiles, 'a.json'));
+    assert.match(warnings.join('\n'), /Skipping profile .*broken\.json: a profile needs a name, a parser and a match/);
+  });
+
+  it('gives no profiles for a missing directory', () => {
+    assert.equal(loadProfiles(join(directory, 'missing')).length, 0);
+  });
+
+  it('loads the bundled CB1 profile with its controls', () => {
+    const cb1 = loadProfiles(join(ROOT, 'profiles')).find(profile => profile.name === 'PXN CB1');
+
+    assert.equal(cb1?.controls, join(ROOT, 'config-controls.json'));
+    assert.deepEqual(cb1?.report, { length: 6, reportId: 1 });
+  });
+});
+
+describe('saveProfileCalibration', () => {
+  it('stores calibration in the profile file, keeping the rest of each axis', () => {
+    const directory = mkdtempSync(join(tmpdir(), 'hid-profiles-'));
+    const file = join(directory, 'pad.json');
+    writeFileSync(file, JSON.stringify({ name: 'Pad', match: {}, parser: 'DescriptorParser', axes: { x: { deadzone: 0.1 } } }));
+
+    try {
+      saveProfileCalibration(file, { x: { min: 0, max: 255, center: 128 }, z: { min: 0, max: 1023 } });
+
+      assert.deepEqual(JSON.parse(readFileSync(file, 'utf8')).axes, {
+        x: { deadzone: 0.1, calibration: { min: 0, max: 255, center: 128 }, centered: true },
+        z: { calibration: { min: 0, max: 1023 }, centered: false },
+      });
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
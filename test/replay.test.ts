@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { instantGapFor, ReplayTransport } from '../src/hid/replay-transport.js';
+import type { CaptureRecord } from '../src/hid/capture.js';
+import type { Config } from '../src/types/index.js';
+import { CB1, CRUISE, IDLE, record, setupRigs, startCB1 } from './helpers.js';
+
+setupRigs();
+
+function capture(reports: Array<[number, number[]]>): CaptureRecord[] {
+  return reports.map(([offset, data]) => ({
+    time: offset,
+    offset,
+    length: data.length,
+    ...CB1,
+    path: 'capture-0',
+    serialNumber: '',
+    data: Buffer.from(data).toString('hex'),
+  }));
+}
+
+function config(overrides: Partial<Config> = {}): Config {
+  return {
+    device: { ...CB1 },
+    polling: { frequency: 10, debounce: 50 },
+    actions: {},
+    logging: { level: 'error', enableRawData: false },
+    ...overrides,
+  };
+}
+
+describe('instantGapFor', () => {
+  it('keeps just past the debounce window when nothing else is timed', () => {
+    assert.equal(instantGapFor([config()]), 150);
+  });
+
+  it('takes the longest debounce rule', () => {
+    assert.equal(instantGapFor([config({
+      polling: { frequency: 10, debounce: 50, debounceByKind: { toggle: { strategy: 'settle', ms: 300 } } },
+    })]), 400);
+    assert.equal(instantGapFor([config({
+      polling: { frequency: 10, debounce: 50, debounceByControl: { cruise: { strategy: 'lockout', ms: 80 } } },
+    })]), 180);
+  });
+
+  it('takes the chord window and sequence timeouts once they are configured', () => {
+    const chord = { name: 'both', controls: ['esc', 'enter'], action: { type: 'record' } };
+    const sequence = { name: 'code', steps: ['esc', 'enter'], action: { type: 'record' } };
+
+    assert.equal(instantGapFor([config({ triggers: { chordWindow: 120, chords: [chord] } })]), 220);
+    assert.equal(instantGapFor([config({ triggers: { sequences: [sequence] } })]), 1100);
+    assert.equal(instantGapFor([config({ triggers: { sequences: [{ ...sequence, timeout: 2500 }] } })]), 2600);
+  });
+
+  it('takes the gesture timings of bindings with gestures, in layers and across devices', () => {
+    assert.equal(instantGapFor([config({ actions: { cruise: record('Cruise') } })]), 150);
+    assert.equal(instantGapFor([config({ actions: { cruise: { name: 'Cruise', tap: { type: 'record' } } } })]), 600);
+
+    const layered = config({
+      layers: {
+        selectors: ['three_way_3'],
+        layers: [{
+          name: 'held',
+          when: { three_way_3: 'pos1' },
+          actions: { esc: { name: 'Esc', longPress: { type: 'record' }, gestures: { longPressThreshold: 3000 } } },
+        }],
+      },
+    });
+    assert.equal(instantGapFor([config(), layered]), 3100);
+  });
+});
+
+describe('ReplayTransport', () => {
+  it('replays separate presses as separate presses at instant speed', async () => {
+    const reports: Array<[number, number[]]> = [[0, IDLE]];
+    for (let i = 0; i < 3; i++) {
+      reports.push([5000 + i * 200, CRUISE], [5100 + i * 200, IDLE]);
+    }
+    const replay = new ReplayTransport(capture(reports), 'instant', 150);
+
+    const rig = await startCB1(replay, { actions: { cruise: record('Cruise') } });
+    await replay.finished();
+    await rig.settle();
+
+    assert.equal(rig.dispatched.length, 3);
+  });
+
+  it('skips long idle stretches at instant speed without cutting a long press short', async () => {
+    const overrides = {
+      actions: { cruise: { name: 'Cruise', tap: { type: 'record' }, longPress: { type: 'record' } } },
+    };
+    const replay = new ReplayTransport(capture([
+      [0, IDLE],
+      [60_000, CRUISE], [60_700, IDLE],
+      [120_000, CRUISE], [120_100, IDLE],
+    ]), 'instant', instantGapFor([config(overrides)]));
+
+    const started = Date.now();
+    const rig = await startCB1(replay, overrides);
+    await replay.finished();
+    await rig.settle(400);
+
+    assert.ok(Date.now() - started < 3000, 'the idle minutes were skipped');
+    assert.deepEqual(rig.dispatched.map(entry => entry.trigger), ['longPress', 'tap']);
+  });
+
+  it('refuses a speed of 0 or a negative gap', () => {
+    assert.throws(() => new ReplayTransport([], 0), /Replay speed must be above 0/);
+    assert.throws(() => new ReplayTransport([], 'instant', -1), /Instant replay gap must be 0 or more/);
+  });
+});
@@ -0,0 +1,149 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { request } from 'node:http';
+import { WebSocket } from 'ws';
+import { EventServer } from '../src/server/index.js';
+import { MockHIDTransport } from '../src/hid/mock-transport.js';
+import type { ServerConfig } from '../src/types/index.js';
+import { CB1_DEVICE, logger, record, setupRigs, sleep, startCB1, type Rig } from './helpers.js';
+
+setupRigs();
+
+const PORT = 38000 + Math.floor(Math.random() * 1000);
+
+interface Reply {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+function send(path: string, options: { method?: string; headers?: Record<string, string>; body?: string } = {}): Promise<Reply> {
+  return new Promise((resolve, reject) => {
+    const req = request({ host: '127.0.0.1', port: PORT, path, method: options.method ?? 'GET', headers: options.headers }, response => {
+      let data = '';
+      response.on('data', (chunk: Buffer) => (data += chunk.toString()));
+      response.on('end', () => resolve({ status: response.statusCode ?? 0, body: data ? JSON.parse(data) : {} }));
+    });
+    req.on('error', reject);
+    req.end(options.body);
+  });
+}
+
+function inject(headers: Record<string, string> = {}): Promise<Reply> {
+  return send('/api/inject', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify({ controlId: 'esc' }),
+  });
+}
+
+/**
+ * Open the event stream, resolving with the upgrade's status
+ */
+function connectSocket(headers: Record<string, string>): Promise<number> {
+  return new Promise(resolve => {
+    const socket = new WebSocket(`ws://127.0.0.1:${PORT}/events`, { headers });
+    socket.on('open', () => {
+      socket.close();
+      resolve(101);
+    });
+    socket.on('unexpected-response', (_request, response) => resolve(response.statusCode ?? 0));
+    socket.on('error', () => resolve(0));
+  });
+}
+
+describe('EventServer', () => {
+  let rig: Rig;
+  let server: EventServer | null = null;
+
+  before(async () => {
+    rig = await startCB1(new MockHIDTransport([CB1_DEVICE]), { actions: { esc: record('Esc') } });
+  });
+
+  after(() => server?.stop());
+
+  async function serve(config: ServerConfig): Promise<void> {
+    await server?.stop();
+    server = new EventServer({ port: PORT, ...config }, logger, () => ({
+      isRunning: true,
+      isConnected: true,
+      devices: [{ id: rig.manager.deviceId, isConnected: true }],
+      actions: { running: 0, pending: 0 },
+      mqtt: null,
+      plugins: [],
+    }));
+    server.attach(rig.manager);
+    await server.start();
+  }
+
+  describe('without a token', () => {
+    before(() => serve({ origins: ['http://localhost:3000'], hosts: ['streampc.local'] }));
+
+    it('serves the status to clients that send no origin', async () => {
+      const { status, body } = await send('/api/status');
+      assert.equal(status, 200);
+      assert.equal(body.isRunning, true);
+    });
+
+    it('serves pages from its own origin and listed origins', async () => {
+      const own = await send('/api/status', { headers: { host: `localhost:${PORT}`, origin: `http://localhost:${PORT}` } });
+      assert.equal(own.status, 200);
+
+      const listed = await send('/api/status', { headers: { origin: 'http://localhost:3000' } });
+      assert.equal(listed.status, 200);
+
+      const named = await send('/api/status', { headers: { host: `streampc.local:${PORT}`, origin: `http://streampc.local:${PORT}` } });
+      assert.equal(named.status, 200);
+    });
+
+    it('refuses other origins', async () => {
+      const { status } = await send('/api/status', { headers: { origin: 'http://evil.example' } });
+      assert.equal(status, 403);
+    });
+
+    it('refuses a rebound domain that looks like its own origin', async () => {
+      const headers = { host: `evil.example:${PORT}`, origin: `http://evil.example:${PORT}` };
+
+      assert.equal((await send('/api/status', { headers })).status, 403);
+      assert.equal((await send('/api/status', { headers: { host: headers.host } })).status, 403);
+      assert.equal((await inject(headers)).status, 403);
+      assert.equal(await connectSocket(headers), 403);
+    });
+
+    it('keeps injection off', async () => {
+      const { status } = await inject();
+      assert.equal(status, 403);
+    });
+
+    it('accepts event stream clients', async () => {
+      assert.equal(await connectSocket({}), 101);
+    });
+  });
+
+  describe('with a token', () => {
+    before(() => serve({ token: 'secret' }));
+
+    it('needs the token', async () => {
+      assert.equal((await send('/api/status')).status, 401);
+      assert.equal((await send('/api/status?token=secret')).status, 200);
+      assert.equal(await connectSocket({}), 401);
+    });
+
+    it('needs JSON to inject', async () => {
+      const { status } = await send('/api/inject', {
+        method: 'POST',
+        headers: { authorization: 'Bearer secret', 'content-type': 'text/plain' },
+        body: JSON.stringify({ controlId: 'esc' }),
+      });
+      assert.equal(status, 415);
+    });
+
+    it('runs injected presses through the bindings', async () => {
+      const { status } = await inject({ authorization: 'Bearer secret' });
+      assert.equal(status, 202);
+
+      await sleep(20);
+      await rig.executor.drain();
+      assert.deepEqual(rig.dispatched.map(entry => entry.bindingId), ['esc']);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ActionRegistry, ShellActionRunner, ShellCommandError, type ShellResult } from '../src/actions/index.js';
+import { logger, sleep } from './helpers.js';
+
+const NODE = process.execPath;
+
+describe('ShellActionRunner', () => {
+  const runner = new ShellActionRunner(logger);
+
+  it('passes args as argv and the context as HID_* variables', async () => {
+    const result = await runner.execute({
+      type: 'shell',
+      command: NODE,
+      args: ['-e', 'console.log(process.argv[1], process.env.HID_CONTROL_ID)', '$HOME; echo no'],
+    }, { controlId: 'esc' });
+
+    assert.equal(result.stdout, '$HOME; echo no esc\n');
+    assert.equal(result.exitCode, 0);
+  });
+
+  it('fails on a non-zero exit', async () => {
+    await assert.rejects(runner.execute({ type: 'shell', command: 'exit 3', shell: true }), (error: unknown) => {
+      assert.ok(error instanceof ShellCommandError);
+      assert.equal(error.result.exitCode, 3);
+      return true;
+    });
+  });
+
+  it('kills a command that ignores the timeout signal after the grace period', async () => {
+    const started = Date.now();
+    await assert.rejects(runner.execute({
+      type: 'shell',
+      command: 'trap "" TERM; echo ready; sleep 5',
+      shell: true,
+      timeout: 100,
+      killGrace: 100,
+    }), (error: unknown) => {
+      assert.ok(error instanceof ShellCommandError);
+      assert.match(error.message, /timed out after 100 ms/);
+      assert.equal(error.result.timedOut, true);
+      assert.equal(error.result.signal, 'SIGKILL');
+      assert.equal(error.result.stdout, 'ready\n');
+      return true;
+    });
+    assert.ok(Date.now() - started < 2000);
+  });
+
+  it('stops a command with killSignal when it obeys it', async () => {
+    await assert.rejects(runner.execute({
+      type: 'shell',
+      command: NODE,
+      args: ['-e', 'setTimeout(() => {}, 5000)'],
+      timeout: 100,
+      killSignal: 'SIGINT',
+    }), (error: unknown) => error instanceof ShellCommandError && error.result.signal === 'SIGINT');
+  });
+
+  it('truncates output past maxOutput', async () => {
+    const result = await runner.execute({
+      type: 'shell',
+      command: NODE,
+      args: ['-e', 'process.stdout.write("x".repeat(5000)); process.stderr.write("y".repeat(50))'],
+      maxOutput: 100,
+    });
+
+    assert.equal(result.stdout, 'x'.repeat(100));
+    assert.equal(result.stderr, 'y'.repeat(50));
+    assert.equal(result.truncated, true);
+  });
+
+  it('cancels by id, along with what the command started', async () => {
+    const actions = new ActionRegistry(logger);
+    const directory = mkdtempSync(join(tmpdir(), 'hid-shell-'));
+    const marker = join(directory, 'survived');
+    const running = actions.executeAction(
+      { type: 'shell', command: `(sleep 0.4; touch "${marker}") & wait`, shell: true },
+      { bindingId: 'script' }
+    ) as Promise<ShellResult>;
+
+    await sleep(100);
+    await actions.executeAction('cancel:script');
+    const result = await running;
+
+    assert.equal(result.cancelled, true);
+    assert.equal(result.signal, 'SIGTERM');
+
+    // The background subshell was in the command's process group
+    await sleep(600);
+    assert.equal(existsSync(marker), false);
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('only cancels the commands with the id', async () => {
+    const first = runner.execute({ type: 'shell', command: 'sleep 5', shell: true, id: 'first' });
+    const second = runner.execute({ type: 'shell', command: 'sleep 0.2', shell: true, id: 'second' });
+    await sleep(50);
+
+    assert.deepEqual(runner.getRunning().sort(), ['first', 'second']);
+    assert.equal(runner.cancel('first'), 1);
+    assert.equal((await first).cancelled, true);
+    assert.equal((await second).cancelled, false);
+    assert.deepEqual(runner.getRunning(), []);
+  });
+});
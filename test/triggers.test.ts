@@ -0,0 +1,145 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TriggerMatcher, type FiredTrigger } from '../src/bindings/triggers.js';
+import { MockHIDTransport, type MockHIDConnection } from '../src/hid/mock-transport.js';
+import type { Config } from '../src/types/index.js';
+import { CB1_DEVICE, CRUISE, ENTER, ESC, ESC_ENTER, IDLE, record, setupRigs, sleep, startCB1, type Rig } from './helpers.js';
+
+setupRigs();
+
+const chords: Config['triggers'] = {
+  chordWindow: 40,
+  chords: [{ name: 'confirm', controls: ['esc', 'enter'], action: { type: 'record' } }],
+};
+
+describe('chords', () => {
+  let rig: Rig;
+  let box: MockHIDConnection;
+
+  async function connect(overrides: Partial<Config>): Promise<void> {
+    const transport = new MockHIDTransport([CB1_DEVICE]);
+    rig = await startCB1(transport, overrides);
+    box = transport.getConnection('mock-0')!;
+    box.feed(IDLE);
+    await sleep(10);
+  }
+
+  beforeEach(() => connect({ actions: { esc: record('Esc', 'press', 'release'), enter: record('Enter') }, triggers: chords }));
+
+  it('runs the chord instead of its members', async () => {
+    box.feed(ESC);
+    box.feed(ESC_ENTER);
+    await sleep(70);
+    box.feed(IDLE);
+    await rig.settle();
+
+    assert.deepEqual(rig.dispatched.map(entry => entry.bindingId), ['chord:confirm']);
+  });
+
+  it('dispatches a lone member once the window has passed', async () => {
+    box.feed(ESC);
+    await sleep(70);
+    box.feed(IDLE);
+    await rig.settle();
+
+    assert.deepEqual(rig.dispatched.map(entry => [entry.bindingId, entry.trigger]), [['esc', 'press'], ['esc', 'release']]);
+  });
+
+  it('keeps the release of a member whose press went out before the chord completed', async () => {
+    box.feed(ESC);
+    await sleep(70);
+    box.feed(ESC_ENTER);
+    await sleep(70);
+    box.feed(ENTER);
+    await sleep(70);
+    box.feed(IDLE);
+    await rig.settle();
+
+    assert.deepEqual(rig.dispatched.map(entry => [entry.bindingId, entry.trigger]), [
+      ['esc', 'press'],
+      ['chord:confirm', 'chord'],
+      ['esc', 'release'],
+    ]);
+  });
+});
+
+describe('sequences', () => {
+  let rig: Rig;
+  let box: MockHIDConnection;
+
+  beforeEach(async () => {
+    const transport = new MockHIDTransport([CB1_DEVICE]);
+    rig = await startCB1(transport, {
+      actions: { cruise: record('Cruise') },
+      triggers: { sequences: [{ name: 'launch', steps: ['cruise', 'esc', 'enter'], timeout: 150, action: { type: 'record' } }] },
+    });
+    box = transport.getConnection('mock-0')!;
+    box.feed(IDLE);
+    await sleep(10);
+  });
+
+  async function tap(data: number[], gap: number): Promise<void> {
+    box.feed(data);
+    await sleep(60);
+    box.feed(IDLE);
+    await sleep(gap);
+  }
+
+  it('fires when the steps are pressed in order within the timeout', async () => {
+    await tap(CRUISE, 60);
+    await tap(ESC, 60);
+    await tap(ENTER, 0);
+    await rig.settle();
+
+    assert.deepEqual(rig.dispatched.map(entry => entry.bindingId), ['cruise', 'sequence:launch']);
+  });
+
+  it('does not fire when a step comes too late or out of order', async () => {
+    await tap(CRUISE, 200);
+    await tap(ESC, 60);
+    await tap(ENTER, 60);
+    await tap(ENTER, 60);
+    await tap(ESC, 60);
+    await tap(CRUISE, 0);
+    await rig.settle();
+
+    assert.deepEqual(rig.dispatched.map(entry => entry.bindingId), ['cruise', 'cruise']);
+  });
+});
+
+describe('TriggerMatcher', () => {
+  it('gives presses held while a flush waits on the chain a window of their own', async () => {
+    const scheduled: Array<() => Promise<void>> = [];
+    const fired: FiredTrigger[] = [];
+    const matcher = new TriggerMatcher({
+      chordWindow: 30,
+      chords: [
+        { name: 'a', controls: ['esc', 'enter'], action: 'log' },
+        { name: 'b', controls: ['flash', 'map'], action: 'log' },
+      ],
+    }, trigger => fired.push(trigger), flush => scheduled.push(flush));
+
+    const dispatched: string[] = [];
+    const press = (bindingId: string): void => {
+      matcher.handle({ bindingId, trigger: 'press' }, Date.now(), async () => {
+        dispatched.push(bindingId);
+      });
+    };
+
+    press('esc');
+    await sleep(50);
+    assert.equal(scheduled.length, 1);
+
+    // The flush for esc hasn't run yet; flash must still be held back
+    press('flash');
+    await scheduled[0]();
+    assert.deepEqual(dispatched, ['esc']);
+
+    press('map');
+    assert.deepEqual(fired.map(trigger => trigger.name), ['b']);
+
+    await sleep(50);
+    assert.equal(scheduled.length, 1, 'flash and map were claimed by the chord');
+    assert.deepEqual(dispatched, ['esc']);
+  });
+});
@@ -32,7 +32,7 @@ async function updateControlNames() {
         if (controlType === 'knobs' || controlType === 'toggles') {
           // Handle nested controls
           for (const [action, actionControl] of Object.entries(control)) {
-            if (action === 'type') continue;
+            if (action === 'type' || action === 'encoder') continue;
             
             const currentName = actionControl.user_name || actionControl.default_name;
             console.log(`  ${controlId}.${action}: ${currentName}`);
@@ -47,7 +47,9 @@ async function updateControlNames() {
             }
           }
         } else {
-          // Handle simple controls
+          // Handle simple controls (skipping settings such as cardinal_only)
+          if (typeof control !== 'object') continue;
+
           const currentName = control.user_name || control.default_name;
           console.log(`  ${controlId}: ${currentName}`);
           